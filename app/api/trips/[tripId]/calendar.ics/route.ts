@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import { buildTripIcs } from '@/lib/ics';
+import { attachmentHeaders, exportFileName, resolveExportDays } from '@/lib/export-utils';
+
+/**
+ * iCalendar export. Subscribing to this URL with the trip's view token gives a live feed:
+ * calendar apps re-fetch it and pick up itinerary changes.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const dayParam = request.nextUrl.searchParams.get('day');
+    const days = resolveExportDays(access.trip, dayParam);
+    if (!days) {
+      return NextResponse.json({ error: 'Day not found' }, { status: 404 });
+    }
+
+    // Only ever link the read-only page from a calendar.
+    const { viewToken } = access.tokens;
+    const tripUrl = viewToken ? `${request.nextUrl.origin}/trip/${viewToken}` : undefined;
+    const fileName = exportFileName(access.trip, 'ics', dayParam ? days[0] : undefined);
+    return new NextResponse(buildTripIcs(access.trip, days, { tripUrl }), {
+      headers: attachmentHeaders('text/calendar; charset=utf-8', fileName),
+    });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error exporting calendar:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
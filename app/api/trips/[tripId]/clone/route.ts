@@ -1,33 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateId } from '@/lib/ulid';
 import { createTripCapabilityLinks, getTripAccessByToken, saveTrip } from '@/lib/kv';
-import type { Day, Destination, Trip } from '@/types/trip';
-
-function cloneTripWithNewIds(source: Trip, overrides?: { name?: string }): Trip {
-  const now = new Date().toISOString();
-
-  const days: Day[] = source.days.map((day) => {
-    const destinations: Destination[] = day.destinations.map((d) => ({
-      ...d,
-      id: generateId(),
-    }));
-
-    return {
-      ...day,
-      id: generateId(),
-      destinations,
-    };
-  });
-
-  return {
-    ...source,
-    id: generateId(),
-    name: (overrides?.name ?? `${source.name} (Copy)`).trim(),
-    createdAt: now,
-    updatedAt: now,
-    days,
-  };
-}
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import { cloneTripWithNewIds } from '@/lib/trip-clone';
 
 export async function POST(
   request: NextRequest,
@@ -35,7 +9,7 @@ export async function POST(
 ) {
   try {
     const { tripId: token } = await params;
-    const access = await getTripAccessByToken(token);
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
 
     if (!access) {
       return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
@@ -65,6 +39,7 @@ export async function POST(
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
     console.error('Error cloning trip:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
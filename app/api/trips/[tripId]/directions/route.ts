@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCachedDirections, getTripAccessByToken, setCachedDirections } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import {
+  directionsSegmentKey,
+  googleDirections,
+  MAX_DIRECTIONS_POINTS,
+  type DirectionsSegmentResult,
+} from '@/lib/directions';
+import { CoordinatesSchema, TravelModeSchema } from '@/lib/trip-schema';
+
+const RequestSchema = z.object({
+  segments: z
+    .array(
+      z.object({
+        mode: TravelModeSchema,
+        points: z.array(CoordinatesSchema).min(2).max(MAX_DIRECTIONS_POINTS),
+      })
+    )
+    .min(1)
+    .max(100),
+});
+
+function pointKey(point: { lat: number; lng: number }) {
+  return `${point.lat},${point.lng}`;
+}
+
+/**
+ * Route geometry and legs for the given segments, served from the shared cache. Only
+ * editors can trigger (and pay for) fresh Directions requests; viewers get `null` for
+ * segments nobody has routed yet.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const parsed = RequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    // Only route between the trip's own stops so the endpoint can't be used as a free proxy.
+    const knownPoints = new Set(
+      access.trip.days.flatMap((day) =>
+        day.destinations.flatMap((d) => (d.location ? [pointKey(d.location)] : []))
+      )
+    );
+    const { segments } = parsed.data;
+    if (segments.some((segment) => segment.points.some((p) => !knownPoints.has(pointKey(p))))) {
+      return NextResponse.json({ error: 'Points must be trip destinations' }, { status: 400 });
+    }
+
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY?.trim();
+    const results: Array<DirectionsSegmentResult | null> = [];
+    for (const segment of segments) {
+      const key = directionsSegmentKey(segment);
+      const cached = await getCachedDirections(key);
+      if (cached || access.role !== 'edit') {
+        results.push(cached);
+        continue;
+      }
+      if (!apiKey) {
+        return NextResponse.json(
+          { error: 'Server Google Maps API key not configured' },
+          { status: 500 }
+        );
+      }
+      const fresh = await googleDirections({ apiKey, segment });
+      if (fresh) await setCachedDirections(key, fresh);
+      results.push(fresh);
+    }
+
+    return NextResponse.json({ segments: results });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error fetching directions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
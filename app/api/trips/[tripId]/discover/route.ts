@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { generateText, Output, streamText } from 'ai';
 import { google } from '@ai-sdk/google';
 import { getTripAccessByToken } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
 import { bestInsertAfterDestinationIdForCandidate, hasValidLocation, haversineKm } from '@/lib/discover';
 import { googlePlacesDetails, googlePlacesFindPlaceFromText } from '@/lib/google-places';
 import { serpapiGoogleMapsSearch, SerpApiQuotaError } from '@/lib/serpapi';
@@ -213,7 +214,7 @@ export async function POST(
 ) {
   try {
     const { tripId: token } = await params;
-    const access = await getTripAccessByToken(token);
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
     if (!access) {
       return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
     }
@@ -568,6 +569,7 @@ export async function POST(
 
     return NextResponse.json({ suggestions });
   } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
     console.error('Error running discover:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken, isTripLinkStillValid } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import { watchTrip } from '@/lib/trip-events';
+
+export const dynamic = 'force-dynamic';
+
+// Streams are recycled well before typical serverless limits; EventSource reconnects on its own.
+const STREAM_DURATION_MS = 4 * 60_000;
+const KEEPALIVE_MS = 15_000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const proof = readUnlockProof(request, token);
+    const access = await getTripAccessByToken(token, proof);
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort(), { once: true });
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (abort.signal.aborted) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        controller.enqueue(encoder.encode('retry: 3000\n\n'));
+        const keepalive = setInterval(() => {
+          if (!abort.signal.aborted) controller.enqueue(encoder.encode(': keepalive\n\n'));
+        }, KEEPALIVE_MS);
+
+        try {
+          await watchTrip(
+            access.trip.id,
+            {
+              onTrip: (trip) => send('trip', { trip }),
+              onPresence: (presence) => send('presence', { presence }),
+            },
+            // The first poll always emits the current trip so reconnecting clients catch up.
+            {
+              signal: abort.signal,
+              maxDurationMs: STREAM_DURATION_MS,
+              // Once the link stops working the stream ends; the reconnect then gets the
+              // 401/404/410 and EventSource gives up.
+              isAllowed: () => isTripLinkStillValid(access.trip.id, token, access.role, proof),
+            }
+          );
+        } catch (e) {
+          console.error('Error watching trip:', e);
+        } finally {
+          clearInterval(keepalive);
+          if (!abort.signal.aborted) controller.close();
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-store, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error opening trip events:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
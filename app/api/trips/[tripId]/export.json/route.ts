@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import { buildTripExport } from '@/lib/trip-export';
+import { attachmentHeaders, exportFileName } from '@/lib/export-utils';
+
+/** Full-fidelity backup of the trip, re-importable from the home page. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    return new NextResponse(JSON.stringify(buildTripExport(access.trip), null, 2), {
+      headers: attachmentHeaders(
+        'application/json; charset=utf-8',
+        exportFileName(access.trip, 'daily-dally.json')
+      ),
+    });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error exporting trip:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
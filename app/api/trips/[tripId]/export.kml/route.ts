@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import { buildTripKml } from '@/lib/kml';
+import { attachmentHeaders, exportFileName, resolveExportDays } from '@/lib/export-utils';
+
+/** KML for Google My Maps; `?routes=0` leaves out the per-day route lines. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const dayParam = request.nextUrl.searchParams.get('day');
+    const days = resolveExportDays(access.trip, dayParam);
+    if (!days) {
+      return NextResponse.json({ error: 'Day not found' }, { status: 404 });
+    }
+
+    const kml = buildTripKml(access.trip, days, {
+      includeRoutes: request.nextUrl.searchParams.get('routes') !== '0',
+    });
+    const fileName = exportFileName(access.trip, 'kml', dayParam ? days[0] : undefined);
+    return new NextResponse(kml, {
+      headers: attachmentHeaders('application/vnd.google-earth.kml+xml; charset=utf-8', fileName),
+    });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error exporting KML:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import { buildTripMarkdown } from '@/lib/markdown';
+import { attachmentHeaders, exportFileName, resolveExportDays } from '@/lib/export-utils';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const dayParam = request.nextUrl.searchParams.get('day');
+    const days = resolveExportDays(access.trip, dayParam);
+    if (!days) {
+      return NextResponse.json({ error: 'Day not found' }, { status: 404 });
+    }
+
+    const fileName = exportFileName(access.trip, 'md', dayParam ? days[0] : undefined);
+    return new NextResponse(buildTripMarkdown(access.trip, days), {
+      headers: attachmentHeaders('text/markdown; charset=utf-8', fileName),
+    });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error exporting Markdown:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
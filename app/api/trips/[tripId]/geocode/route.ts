@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getTripAccessByToken } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import {
+  googlePlacesFindPlaceFromText,
+  MAX_GEOCODE_QUERIES,
+  type GooglePlacesCanonicalPlace,
+} from '@/lib/google-places';
+import { CoordinatesSchema } from '@/lib/trip-schema';
+
+const RequestSchema = z.object({
+  queries: z.array(z.string().trim().min(1).max(300)).min(1).max(MAX_GEOCODE_QUERIES),
+  locationBias: CoordinatesSchema.optional(),
+});
+
+// Lookups in flight at once; keeps a batch quick without tripping Places rate limits.
+const LOOKUP_CONCURRENCY = 5;
+
+/** Looks up free-text places (e.g. imported rows without coordinates). Editors only. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (access.role !== 'edit') {
+      return NextResponse.json({ error: 'Read-only access' }, { status: 403 });
+    }
+
+    const parsed = RequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY?.trim();
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'Server Google Maps API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { queries, locationBias } = parsed.data;
+    const results: Array<GooglePlacesCanonicalPlace | null> = new Array(queries.length).fill(null);
+    let next = 0;
+    const worker = async () => {
+      while (next < queries.length) {
+        const index = next++;
+        results[index] = await googlePlacesFindPlaceFromText({
+          apiKey,
+          input: queries[index]!,
+          locationBias: locationBias ? { center: locationBias, radiusMeters: 50_000 } : undefined,
+        }).catch(() => null);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(LOOKUP_CONCURRENCY, queries.length) }, worker));
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error geocoding:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import { buildTripGeoJson } from '@/lib/geojson';
+import { resolveExportDays } from '@/lib/export-utils';
+
+/**
+ * The trip as a GeoJSON FeatureCollection for other tools. Works with view tokens.
+ * `?day=` limits it to one day; `?routes=1` adds a LineString per day.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const days = resolveExportDays(access.trip, request.nextUrl.searchParams.get('day'));
+    if (!days) {
+      return NextResponse.json({ error: 'Day not found' }, { status: 404 });
+    }
+
+    const geojson = buildTripGeoJson(access.trip, days, {
+      includeRoutes: request.nextUrl.searchParams.get('routes') === '1',
+    });
+    return NextResponse.json(geojson, {
+      headers: {
+        'Content-Type': 'application/geo+json; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error building GeoJSON:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken, getTripHistoryEntry, mutateTrip } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string; revision: string }> }
+) {
+  try {
+    const { tripId: token, revision: revisionParam } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (access.role !== 'edit') {
+      return NextResponse.json({ error: 'Read-only link' }, { status: 403 });
+    }
+
+    const revision = Number.parseInt(revisionParam, 10);
+    if (!Number.isFinite(revision)) {
+      return NextResponse.json({ error: 'Invalid revision' }, { status: 400 });
+    }
+
+    const entry = await getTripHistoryEntry(access.trip.id, revision);
+    if (!entry) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    // Restoring saves the old snapshot as a new revision, so the restore itself can be undone.
+    const result = await mutateTrip(
+      access.trip.id,
+      (current) => ({
+        ...entry.trip,
+        id: current.id,
+        createdAt: current.createdAt,
+        revision: current.revision,
+      }),
+      { note: `Restored revision ${revision}` }
+    );
+
+    if (result.status === 'not_found') {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (result.status !== 'saved') {
+      return NextResponse.json({ error: 'Failed to restore trip' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      trip: result.trip,
+      accessRole: 'edit',
+      tokens: access.tokens,
+    });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error restoring trip revision:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
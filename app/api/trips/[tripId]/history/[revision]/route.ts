@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken, getTripHistoryEntry } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string; revision: string }> }
+) {
+  try {
+    const { tripId: token, revision: revisionParam } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (access.role !== 'edit') {
+      return NextResponse.json({ error: 'Read-only link' }, { status: 403 });
+    }
+
+    const revision = Number.parseInt(revisionParam, 10);
+    if (!Number.isFinite(revision)) {
+      return NextResponse.json({ error: 'Invalid revision' }, { status: 400 });
+    }
+
+    const entry = await getTripHistoryEntry(access.trip.id, revision);
+    if (!entry) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error fetching trip revision:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken, getTripHistory } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (access.role !== 'edit') {
+      return NextResponse.json({ error: 'Read-only link' }, { status: 403 });
+    }
+
+    // Listing only; snapshots are fetched one at a time for preview.
+    const history = await getTripHistory(access.trip.id);
+    if (!history) {
+      return NextResponse.json({ error: 'Failed to load history' }, { status: 500 });
+    }
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error fetching trip history:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
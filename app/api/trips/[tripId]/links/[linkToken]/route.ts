@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripAccessByToken, revokeTripShareLink } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+
+/** Revokes one named link. The default links are reset through `tokens` instead. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string; linkToken: string }> }
+) {
+  try {
+    const { tripId: token, linkToken } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (access.role !== 'edit') {
+      return NextResponse.json({ error: 'Read-only link' }, { status: 403 });
+    }
+    if (linkToken === token) {
+      return NextResponse.json({ error: "You can't revoke the link you're using" }, { status: 400 });
+    }
+
+    const revoked = await revokeTripShareLink(access.trip.id, linkToken);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Link not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error revoking share link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  createTripShareLink,
+  getTripAccessByToken,
+  getTripCapabilitiesByTripId,
+  listTripShareLinks,
+  MAX_SHARE_LINKS,
+} from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+
+const CreateLinkSchema = z
+  .object({
+    role: z.enum(['view', 'edit']),
+    label: z.string().trim().min(1).max(60),
+    expiresAt: z.iso.datetime({ offset: true }).optional(),
+    passphrase: z.string().min(4).max(200).optional(),
+  })
+  // Expiry and passphrases are for view links handed to people outside the trip.
+  .refine((link) => link.role === 'view' || (!link.expiresAt && !link.passphrase), {
+    message: 'Only view links can expire or need a passphrase',
+  })
+  .refine((link) => !link.expiresAt || Date.parse(link.expiresAt) > Date.now(), {
+    message: 'Expiry must be in the future',
+  });
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (access.role !== 'edit') {
+      return NextResponse.json({ error: 'Read-only link' }, { status: 403 });
+    }
+
+    const links = await listTripShareLinks(access.trip.id);
+    if (!links) {
+      return NextResponse.json({ error: 'Failed to load links' }, { status: 500 });
+    }
+
+    return NextResponse.json({ links });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error listing share links:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (access.role !== 'edit') {
+      return NextResponse.json({ error: 'Read-only link' }, { status: 403 });
+    }
+
+    const parsed = CreateLinkSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      const rule = parsed.error.issues.find((issue) => issue.code === 'custom');
+      return NextResponse.json({ error: rule?.message ?? 'Invalid request' }, { status: 400 });
+    }
+
+    const caps = await getTripCapabilitiesByTripId(access.trip.id);
+    if ((caps?.links?.length ?? 0) >= MAX_SHARE_LINKS) {
+      return NextResponse.json(
+        { error: `A trip can have at most ${MAX_SHARE_LINKS} named links` },
+        { status: 400 }
+      );
+    }
+
+    const link = await createTripShareLink(access.trip.id, parsed.data);
+    if (!link) {
+      return NextResponse.json({ error: 'Failed to create link' }, { status: 500 });
+    }
+
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error creating share link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrip, getTripAccessByToken, mutateTrip } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import { applyTripOps, TripOpError, TripOpsRequestSchema } from '@/lib/trip-ops';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (access.role !== 'edit') {
+      return NextResponse.json({ error: 'Read-only link' }, { status: 403 });
+    }
+
+    const parsed = TripOpsRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const { ops } = parsed.data;
+    let result;
+    try {
+      // Ops are re-applied to the latest stored copy if another save lands first,
+      // so concurrent edits to different parts of the trip merge.
+      result = await mutateTrip(access.trip.id, (current) => applyTripOps(current, ops));
+    } catch (e) {
+      if (e instanceof TripOpError) {
+        const current = (await getTrip(access.trip.id)) ?? access.trip;
+        return NextResponse.json(
+          {
+            error: e.message,
+            trip: current,
+            accessRole: 'edit',
+            tokens: access.tokens,
+          },
+          { status: 409 }
+        );
+      }
+      throw e;
+    }
+
+    if (result.status === 'not_found') {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (result.status !== 'saved') {
+      return NextResponse.json({ error: 'Failed to update trip' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      trip: result.trip,
+      accessRole: 'edit',
+      tokens: access.tokens,
+    });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error applying trip ops:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getTripAccessByToken, setTripPresence } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+
+const RequestSchema = z.object({
+  clientId: z.string().min(1).max(64),
+  dayId: z.string().min(1).nullable(),
+  leaving: z.boolean().optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    // Also receives navigator.sendBeacon() posts on tab close (sent as text/plain).
+    const parsed = RequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const { clientId, dayId, leaving } = parsed.data;
+    const presence = await setTripPresence(
+      access.trip.id,
+      { clientId, dayId, role: access.role },
+      leaving ?? false
+    );
+
+    return NextResponse.json({ presence });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error updating presence:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
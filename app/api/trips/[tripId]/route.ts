@@ -3,9 +3,10 @@ import {
   deleteCapabilitiesForTrip,
   deleteTrip,
   getTripAccessByToken,
-  saveTrip,
+  saveTripIfRevision,
 } from '@/lib/kv';
-import type { Trip } from '@/types/trip';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+import { parseTrip } from '@/lib/trip-schema';
 
 export async function GET(
   request: NextRequest,
@@ -13,7 +14,7 @@ export async function GET(
 ) {
   try {
     const { tripId: token } = await params;
-    const access = await getTripAccessByToken(token);
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
 
     if (!access) {
       return NextResponse.json(
@@ -28,6 +29,7 @@ export async function GET(
       tokens: access.tokens,
     });
   } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
     console.error('Error fetching trip:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -42,7 +44,7 @@ export async function PUT(
 ) {
   try {
     const { tripId: token } = await params;
-    const access = await getTripAccessByToken(token);
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
     if (!access) {
       return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
     }
@@ -51,7 +53,17 @@ export async function PUT(
     }
 
     const tripId = access.trip.id;
-    const updates: Trip = await request.json();
+    const body: unknown = await request.json();
+
+    // Older clients may send an older shape; migrate it forward before validating.
+    const parsed = parseTrip(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid trip', issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+    const updates = parsed.data;
 
     // Ensure the tripId in the URL matches the trip ID in the body
     if (updates.id !== tripId) {
@@ -61,9 +73,26 @@ export async function PUT(
       );
     }
 
-    const success = await saveTrip(updates);
+    const result = await saveTripIfRevision(updates, updates.revision);
 
-    if (!success) {
+    if (result.status === 'conflict') {
+      // Hand back the server copy so the client can rebase or prompt.
+      return NextResponse.json(
+        {
+          error: 'Trip was changed by someone else',
+          trip: result.current,
+          accessRole: 'edit',
+          tokens: access.tokens,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (result.status === 'not_found') {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    if (result.status !== 'saved') {
       return NextResponse.json(
         { error: 'Failed to update trip' },
         { status: 500 }
@@ -71,11 +100,12 @@ export async function PUT(
     }
 
     return NextResponse.json({
-      trip: updates,
+      trip: result.trip,
       accessRole: 'edit',
       tokens: access.tokens,
     });
   } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
     console.error('Error updating trip:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -90,7 +120,7 @@ export async function DELETE(
 ) {
   try {
     const { tripId: token } = await params;
-    const access = await getTripAccessByToken(token);
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
     if (!access) {
       return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
     }
@@ -111,6 +141,7 @@ export async function DELETE(
     await deleteCapabilitiesForTrip(tripId);
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
     console.error('Error deleting trip:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getTripAccessByToken, getTripCapabilitiesByTripId, rotateTripCapability } from '@/lib/kv';
+import { linkErrorResponse, readUnlockProof, TripLinkError } from '@/lib/link-protection';
+
+const RotateRequestSchema = z.object({
+  role: z.enum(['view', 'edit']),
+});
+
+/**
+ * Rotates the trip's default view or edit link; the old link stops working. Editors only.
+ * The response's `editToken` is the link the caller should be on: the new default edit
+ * token if theirs was the one rotated, otherwise their own (possibly named) link.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const access = await getTripAccessByToken(token, readUnlockProof(request, token));
+    if (!access) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+    if (access.role !== 'edit') {
+      return NextResponse.json({ error: 'Read-only link' }, { status: 403 });
+    }
+
+    const parsed = RotateRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const caps = await getTripCapabilitiesByTripId(access.trip.id);
+    const rotated = await rotateTripCapability(access.trip.id, parsed.data.role);
+    if (!caps || !rotated) {
+      return NextResponse.json({ error: 'Failed to rotate link' }, { status: 500 });
+    }
+
+    const wasOwnLink = parsed.data.role === 'edit' && caps.editToken === token;
+    return NextResponse.json({
+      tokens: { viewToken: rotated.viewToken, editToken: wasOwnLink ? rotated.editToken : token },
+    });
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error rotating trip link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { unlockTripLink } from '@/lib/kv';
+import { linkErrorResponse, TripLinkError, unlockCookieName } from '@/lib/link-protection';
+
+const UnlockRequestSchema = z.object({
+  passphrase: z.string().min(1).max(200),
+});
+
+// Re-enter the passphrase at least this often, even on links that never expire.
+const UNLOCK_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Exchanges a protected link's passphrase for an httpOnly cookie scoped to this site;
+ * `getTripAccessByToken` accepts the link while it's present.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId: token } = await params;
+    const parsed = UnlockRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    const unlocked = await unlockTripLink(token, parsed.data.passphrase);
+    if (!unlocked) {
+      return linkErrorResponse(new TripLinkError('passphrase_invalid'));
+    }
+
+    const secondsLeft = unlocked.expiresAt
+      ? Math.floor((Date.parse(unlocked.expiresAt) - Date.now()) / 1000)
+      : UNLOCK_MAX_AGE_SECONDS;
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(unlockCookieName(token), unlocked.proof, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: Math.max(1, Math.min(secondsLeft, UNLOCK_MAX_AGE_SECONDS)),
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof TripLinkError) return linkErrorResponse(error);
+    console.error('Error unlocking trip link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
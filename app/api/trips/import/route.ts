@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTripCapabilityLinks, saveTrip } from '@/lib/kv';
+import { cloneTripWithNewIds } from '@/lib/trip-clone';
+import { readTripExport, TripImportError } from '@/lib/trip-export';
+
+// Far above any real itinerary; keeps a stray upload from being parsed.
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+/** Creates a new trip (new ids, fresh capability links) from a JSON export. */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.text();
+    if (body.length > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'Trip file is too large' }, { status: 413 });
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      return NextResponse.json({ error: 'Trip file is not valid JSON' }, { status: 400 });
+    }
+
+    const source = readTripExport(data);
+    const trip = cloneTripWithNewIds(source, { name: source.name });
+    const success = await saveTrip(trip);
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to save trip' }, { status: 500 });
+    }
+
+    const tokens = await createTripCapabilityLinks(trip.id);
+    if (!tokens) {
+      return NextResponse.json({ error: 'Failed to create share links' }, { status: 500 });
+    }
+
+    return NextResponse.json({ trip, accessRole: 'edit', tokens }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TripImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error importing trip:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateId } from '@/lib/ulid';
 import { createTripCapabilityLinks, saveTrip } from '@/lib/kv';
+import { TRIP_SCHEMA_VERSION } from '@/lib/trip-schema';
 import type { Trip, Day } from '@/types/trip';
 
 export async function POST(request: NextRequest) {
@@ -26,9 +27,11 @@ export async function POST(request: NextRequest) {
 
     const trip: Trip = {
       id: tripId,
+      schemaVersion: TRIP_SCHEMA_VERSION,
       name: name.trim(),
       createdAt: now,
       updatedAt: now,
+      revision: 0,
       days: [firstDay],
     };
 
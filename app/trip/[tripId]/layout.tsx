@@ -1,5 +1,6 @@
 import { notFound } from 'next/navigation';
 import { getTripAccessByToken } from '@/lib/kv';
+import { TripLinkError } from '@/lib/link-protection';
 
 export default async function TripLayout({
   children,
@@ -9,10 +10,14 @@ export default async function TripLayout({
   params: Promise<{ tripId: string }>;
 }) {
   const { tripId } = await params;
-  const access = await getTripAccessByToken(tripId);
-
-  if (!access) {
-    notFound();
+  try {
+    const access = await getTripAccessByToken(tripId);
+    if (!access) {
+      notFound();
+    }
+  } catch (error) {
+    // Locked and expired links exist; the page explains them (and offers the unlock form).
+    if (!(error instanceof TripLinkError)) throw error;
   }
 
   return <>{children}</>;
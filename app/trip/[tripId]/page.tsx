@@ -5,13 +5,21 @@ import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useTrip } from '@/hooks/useTrip';
 import { TripHeader } from '@/components/trip/TripHeader';
 import { DayTabs } from '@/components/trip/DayTabs';
+import { ConflictBanner } from '@/components/trip/ConflictBanner';
 import { DayEditor } from '@/components/itinerary/DayEditor';
+import { TripSummary } from '@/components/trip/TripSummary';
 import { TripMap } from '@/components/map/TripMap';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { Toast } from '@/components/ui/Toast';
+import { UnlockTripScreen } from '@/components/trip/UnlockTripScreen';
 import { generateId } from '@/lib/ulid';
+import { removeRecentTrip } from '@/lib/recents';
 import { distinctRouteColor } from '@/lib/route-colors';
-import type { Coordinates, Day, Destination } from '@/types/trip';
+import type { TripOp } from '@/lib/trip-ops';
+import type { Coordinates, Day, Destination, RouteLeg } from '@/types/trip';
 import { TripSearchModal, type TripSearchSelection } from '@/components/search/TripSearchModal';
+import { GeoImportModal } from '@/components/trip/GeoImportModal';
+import { isGeoImportFile, parseGeoImport, type GeoImportResult, type ImportedDay } from '@/lib/geo-import';
 
 function isEditableElement(el: Element | null) {
   if (!el) return false;
@@ -26,8 +34,26 @@ export default function TripPage() {
   const searchParams = useSearchParams();
   const tripToken = params.tripId as string;
 
-  const { trip, isLoading, error, updateTrip, accessRole, tokens, isReadOnly } =
-    useTrip(tripToken);
+  const {
+    trip,
+    isLoading,
+    error,
+    applyOps: applyRecordedOps,
+    updateTrip,
+    applyServerTrip,
+    undo,
+    redo,
+    conflict,
+    resolveConflict,
+    presence,
+    setPresenceDayId,
+    accessRole,
+    tokens,
+    isReadOnly,
+    setTokens,
+    linkStatus,
+    unlock,
+  } = useTrip(tripToken);
   const isTripView = useMemo(() => searchParams.get('view') === 'trip', [searchParams]);
   const stickyStackRef = useRef<HTMLDivElement | null>(null);
   const contentAreaRef = useRef<HTMLDivElement | null>(null);
@@ -65,6 +91,42 @@ export default function TripPage() {
   });
 
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+  const [routeLegs, setRouteLegs] = useState<Record<string, RouteLeg[]>>({});
+  const handleRouteLegs = useCallback((routeId: string, legs: RouteLeg[]) => {
+    // The map re-reports unchanged legs on every redraw; keep state stable so it doesn't loop.
+    setRouteLegs((prev) =>
+      JSON.stringify(prev[routeId] ?? []) === JSON.stringify(legs) ? prev : { ...prev, [routeId]: legs }
+    );
+  }, []);
+  const dismissUndoToast = useCallback(() => setUndoToast(null), []);
+  const opsSentRef = useRef(0);
+  // Every edit goes on the undo stack, so an open "Undo" toast would now undo that instead.
+  const applyOps = useCallback(
+    (ops: TripOp[]) => {
+      opsSentRef.current += 1;
+      setUndoToast(null);
+      return applyRecordedOps(ops);
+    },
+    [applyRecordedOps]
+  );
+  /** Offers "Undo" once `ops` are saved, unless another edit was sent in the meantime. */
+  const applyOpsWithUndoToast = useCallback(
+    async (ops: TripOp[], message: string) => {
+      const saving = applyOps(ops);
+      const sent = opsSentRef.current;
+      const saved = await saving;
+      if (saved && opsSentRef.current === sent) setUndoToast(message);
+      return saved;
+    },
+    [applyOps]
+  );
+  const [geoImport, setGeoImport] = useState<{
+    fileName: string;
+    result: GeoImportResult | null;
+    error: string | null;
+  } | null>(null);
+  const [isGeoImporting, setIsGeoImporting] = useState(false);
   const pendingScrollRef = useRef<{ dayId: string; destinationId: string } | null>(null);
 
   // When the page scrolls, the sticky header begins to overlap content. Add a bottom border for clarity.
@@ -133,6 +195,14 @@ export default function TripPage() {
     return new Map(trip.days.map((d, idx) => [d.id, distinctRouteColor(idx)]));
   }, [trip]);
 
+  // Let other open tabs see which day this one is looking at.
+  const presenceDayId = isTripView ? null : activeDayId || null;
+  const hasTrip = !!trip;
+  useEffect(() => {
+    if (!hasTrip) return;
+    setPresenceDayId(presenceDayId);
+  }, [hasTrip, presenceDayId, setPresenceDayId]);
+
   // Initialize the open accordion day when entering Trip View.
   useEffect(() => {
     if (!trip) return;
@@ -178,6 +248,22 @@ export default function TripPage() {
     [activeDayId]
   );
 
+  const [previewOrder, setPreviewOrder] = useState<{
+    dayId: string;
+    destinations: Destination[];
+  } | null>(null);
+  const handlePreviewOrderChange = useCallback(
+    (dayId: string, destinations: Destination[] | null) => {
+      setPreviewOrder((prev) => {
+        if (destinations) return { dayId, destinations };
+        return prev?.dayId === dayId ? null : prev;
+      });
+    },
+    []
+  );
+  const destinationsForMap = (day: Day) =>
+    previewOrder?.dayId === day.id ? previewOrder.destinations : day.destinations;
+
   const handlePreviewLocationChangeForDay = useCallback(
     (dayId: string, location: Coordinates | null) => {
       setPreview((prev) => {
@@ -253,6 +339,24 @@ export default function TripPage() {
     return () => window.removeEventListener('keydown', onKeyDown);
   }, []);
 
+  // Cmd/Ctrl+Z undoes and Shift+Cmd/Ctrl+Z redoes itinerary edits. Text fields keep their
+  // native undo.
+  useEffect(() => {
+    if (isReadOnly) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      if (e.altKey) return;
+      if (e.key.toLowerCase() !== 'z') return;
+      if (isEditableElement(document.activeElement)) return;
+      e.preventDefault();
+      setUndoToast(null);
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isReadOnly, redo, undo]);
+
   const scrollToDestinationCard = useCallback((destinationId: string) => {
     const el = document.getElementById(`destination-${destinationId}`);
     el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
@@ -313,33 +417,94 @@ export default function TripPage() {
   const handleAddDay = async () => {
     if (!trip || isReadOnly) return;
 
-    const newDay: Day = {
-      id: generateId(),
-      label: `Day ${trip.days.length + 1}`,
-      destinations: [],
-    };
+    await applyOps([
+      {
+        type: 'addDay',
+        day: { id: generateId(), label: `Day ${trip.days.length + 1}` },
+      },
+    ]);
 
-    await updateTrip({
-      ...trip,
-      days: [...trip.days, newDay],
-    });
+    router.push(`/trip/${tripToken}?day=${trip.days.length}`, { scroll: false });
+  };
+
+  const handleGeoImportFile = useCallback(async (file: File) => {
+    try {
+      setGeoImport({ fileName: file.name, result: parseGeoImport(await file.text(), file.name), error: null });
+    } catch (e) {
+      setGeoImport({
+        fileName: file.name,
+        result: null,
+        error: e instanceof Error ? e.message : 'Could not read this file',
+      });
+    }
+  }, []);
+
+  // Dropping a GPX/KML/GeoJSON file anywhere on the page opens the import preview.
+  useEffect(() => {
+    if (isReadOnly) return;
+    const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes('Files');
+    const handleDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      const file = Array.from(e.dataTransfer?.files ?? []).find((f) => isGeoImportFile(f.name));
+      if (file) handleGeoImportFile(file);
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [handleGeoImportFile, isReadOnly]);
 
+  const handleGeoImport = async (importedDays: ImportedDay[]) => {
+    if (!trip || isReadOnly) return;
+    const ops: TripOp[] = importedDays.map((day) => ({
+      type: 'addDay',
+      day: {
+        id: generateId(),
+        label: day.label,
+        destinations: day.destinations.map((d) => ({ ...d, id: generateId() })),
+      },
+    }));
+
+    setIsGeoImporting(true);
+    const saved = await applyOps(ops);
+    setIsGeoImporting(false);
+    if (!saved) {
+      setGeoImport((prev) => prev && { ...prev, error: 'Failed to save the imported days' });
+      return;
+    }
+    setGeoImport(null);
     router.push(`/trip/${tripToken}?day=${trip.days.length}`, { scroll: false });
   };
 
+  const handleTokensRotated = (next: { viewToken: string; editToken: string }) => {
+    if (next.editToken === tripToken) {
+      setTokens(next);
+      return;
+    }
+    // Our own URL was the edit link that just stopped working.
+    removeRecentTrip(tripToken);
+    router.replace(`/trip/${next.editToken}${window.location.search}`, { scroll: false });
+  };
+
   const handleDeleteDay = async (dayId: string) => {
     if (!trip || isReadOnly || trip.days.length <= 1) return;
 
     const dayIndex = trip.days.findIndex((d) => d.id === dayId);
-    const newDays = trip.days.filter((d) => d.id !== dayId);
+    const remainingDayCount = trip.days.length - 1;
 
-    await updateTrip({
-      ...trip,
-      days: newDays,
-    });
+    await applyOpsWithUndoToast(
+      [{ type: 'deleteDay', dayId }],
+      `Deleted ${trip.days[dayIndex]?.label ?? 'day'}`
+    );
 
     if (activeDayId === dayId) {
-      const newIndex = Math.min(dayIndex, newDays.length - 1);
+      const newIndex = Math.min(dayIndex, remainingDayCount - 1);
       router.push(`/trip/${tripToken}?day=${newIndex}`, { scroll: false });
     }
   };
@@ -356,10 +521,7 @@ export default function TripPage() {
     const newDays = [...trip.days];
     [newDays[dayIndex], newDays[newIndex]] = [newDays[newIndex], newDays[dayIndex]];
 
-    await updateTrip({
-      ...trip,
-      days: newDays,
-    });
+    await applyOps([{ type: 'reorderDays', dayIds: newDays.map((d) => d.id) }]);
 
     router.push(`/trip/${tripToken}?day=${newIndex}`, { scroll: false });
   };
@@ -370,10 +532,7 @@ export default function TripPage() {
     // Find the new index of the active day to keep it selected/in view
     const newActiveDayIndex = newDays.findIndex((d) => d.id === activeDayId);
     
-    await updateTrip({
-      ...trip,
-      days: newDays,
-    });
+    await applyOps([{ type: 'reorderDays', dayIds: newDays.map((d) => d.id) }]);
 
     if (newActiveDayIndex !== -1) {
        router.push(`/trip/${tripToken}?day=${newActiveDayIndex}`, { scroll: false });
@@ -383,14 +542,37 @@ export default function TripPage() {
   const handleRenameDay = async (dayId: string, newLabel: string) => {
     if (!trip || isReadOnly) return;
 
-    const newDays = trip.days.map((d) =>
-      d.id === dayId ? { ...d, label: newLabel } : d
-    );
+    await applyOps([{ type: 'renameDay', dayId, label: newLabel }]);
+  };
 
-    await updateTrip({
-      ...trip,
-      days: newDays,
+  const handleApplyDayOps = async (ops: TripOp[]) => {
+    if (!trip || isReadOnly) return false;
+
+    const removed = ops.flatMap((op) => {
+      if (op.type !== 'deleteDestination') return [];
+      const day = trip.days.find((d) => d.id === op.dayId);
+      return day?.destinations.filter((d) => d.id === op.destinationId) ?? [];
     });
+    if (removed.length === 0) return applyOps(ops);
+    return applyOpsWithUndoToast(
+      ops,
+      removed.length === 1 ? `Removed ${removed[0]!.name}` : `Removed ${removed.length} destinations`
+    );
+  };
+
+  // The optimized order only fits the stops it was computed from, so this one edit is a
+  // revision-checked save rather than ops: if the trip changed in the meantime, the
+  // conflict banner asks whose version to keep.
+  const handleApplyOptimizedOrder = async (dayId: string, destinations: Destination[]) => {
+    if (!trip || isReadOnly) return;
+    try {
+      await updateTrip((prev) => ({
+        ...prev,
+        days: prev.days.map((d) => (d.id === dayId ? { ...d, destinations } : d)),
+      }));
+    } catch {
+      // useTrip has already rolled back and reported the error.
+    }
   };
 
   const handleMoveDestination = useCallback(
@@ -421,23 +603,7 @@ export default function TripPage() {
         );
       }
 
-      const newDays = trip.days.map((day) => {
-        if (day.id === fromDayId) {
-          return {
-            ...day,
-            destinations: day.destinations.filter((d) => d.id !== destinationId),
-          };
-        }
-        if (day.id === toDayId) {
-          return {
-            ...day,
-            destinations: [...day.destinations, destination],
-          };
-        }
-        return day;
-      });
-
-      await updateTrip({ ...trip, days: newDays });
+      await applyOps([{ type: 'moveDestination', fromDayId, toDayId, destinationId }]);
 
       if (isTripView) {
         setSelected({ dayId: toDayId, id: destinationId });
@@ -454,7 +620,7 @@ export default function TripPage() {
         }, 150);
       }
     },
-    [activeDayId, isReadOnly, isTripView, trip, updateTrip]
+    [activeDayId, applyOps, isReadOnly, isTripView, trip]
   );
 
   const handleDeleteTrip = async () => {
@@ -480,6 +646,10 @@ export default function TripPage() {
     );
   }
 
+  if (linkStatus) {
+    return <UnlockTripScreen status={linkStatus} onUnlock={unlock} />;
+  }
+
   if (error || !trip) {
     return (
       <div className="flex min-h-screen items-center justify-center topo-pattern">
@@ -508,11 +678,24 @@ export default function TripPage() {
             accessRole={accessRole}
             tokens={tokens}
             tripToken={tripToken}
-            onUpdate={updateTrip}
+            onRename={(name) => applyOps([{ type: 'renameTrip', name }])}
+            onChangeStartDate={(startDate) => applyOps([{ type: 'setStartDate', startDate }])}
+            onRestored={applyServerTrip}
             onDelete={handleDeleteTrip}
             onOpenSearch={() => setIsSearchOpen(true)}
+            onImportFile={handleGeoImportFile}
+            onTokensRotated={handleTokensRotated}
+            activeDayIndex={isTripView ? undefined : activeDayIndex}
           />
         </div>
+        {conflict && (
+          <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 pt-4">
+            <ConflictBanner
+              onKeepServer={() => resolveConflict('keep-server')}
+              onOverwrite={() => resolveConflict('overwrite')}
+            />
+          </div>
+        )}
         <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 pt-4 pb-2">
           <DayTabs
             days={trip.days}
@@ -528,6 +711,8 @@ export default function TripPage() {
             }}
             onAddDay={handleAddDay}
             onReorderDays={handleReorderDays}
+            startDate={trip.startDate}
+            presence={presence}
             readOnly={isReadOnly}
           />
         </div>
@@ -544,8 +729,10 @@ export default function TripPage() {
                 tripToken={tripToken}
                 day={activeDay}
                 trip={trip}
+                legs={routeLegs[activeDay.id]}
                 readOnly={isReadOnly}
                 onPreviewLocationChange={handlePreviewLocationChange}
+                onPreviewOrderChange={handlePreviewOrderChange}
                 activeDestinationId={activeDestinationId}
                 onSelectDestination={(id) => {
                   setSelected({ dayId: activeDayId, id });
@@ -554,13 +741,8 @@ export default function TripPage() {
                 onDeleteDay={handleDeleteDay}
                 onRenameDay={handleRenameDay}
                 onMoveDestination={handleMoveDestination}
-                onUpdate={(updatedDay) => {
-                  if (isReadOnly) return;
-                  const updatedDays = trip.days.map((d) =>
-                    d.id === updatedDay.id ? updatedDay : d
-                  );
-                  updateTrip({ ...trip, days: updatedDays });
-                }}
+                onApplyOps={handleApplyDayOps}
+                onApplyOptimizedOrder={handleApplyOptimizedOrder}
               />
             </div>
 
@@ -580,7 +762,12 @@ export default function TripPage() {
             >
               <TripMap
                 key={activeDayId}
-                destinations={activeDay.destinations}
+                destinations={destinationsForMap(activeDay)}
+                routeId={activeDay.id}
+                travelMode={activeDay.travelMode}
+                onRouteLegs={handleRouteLegs}
+                tripToken={tripToken}
+                readOnly={isReadOnly}
                 activeDestinationId={activeDestinationId}
                 previewLocation={previewLocation}
                 onDestinationClick={handleMapDestinationClick}
@@ -595,6 +782,8 @@ export default function TripPage() {
         {isTripView && (
           <div className="flex flex-col gap-4 lg:gap-6 lg:flex-row lg:items-start">
             <div className="min-w-0 lg:flex-1">
+              <TripSummary trip={trip} routeLegs={routeLegs} />
+
               {/* Desktop: show all days */}
               <div className="hidden lg:block space-y-8">
                 {trip.days.map((day) => (
@@ -603,9 +792,11 @@ export default function TripPage() {
                       tripToken={tripToken}
                       day={day}
                       trip={trip}
+                      legs={routeLegs[day.id]}
                       readOnly={isReadOnly}
                       locationBadgeColor={tripDayColors.get(day.id)}
                       onPreviewLocationChange={(loc) => handlePreviewLocationChangeForDay(day.id, loc)}
+                      onPreviewOrderChange={handlePreviewOrderChange}
                       activeDestinationId={
                         selected.dayId === day.id || hovered.dayId === day.id
                           ? activeDestinationId
@@ -618,13 +809,8 @@ export default function TripPage() {
                       onDeleteDay={handleDeleteDay}
                       onRenameDay={handleRenameDay}
                       onMoveDestination={handleMoveDestination}
-                      onUpdate={(updatedDay) => {
-                        if (isReadOnly) return;
-                        const updatedDays = trip.days.map((d) =>
-                          d.id === updatedDay.id ? updatedDay : d
-                        );
-                        updateTrip({ ...trip, days: updatedDays });
-                      }}
+                      onApplyOps={handleApplyDayOps}
+                      onApplyOptimizedOrder={handleApplyOptimizedOrder}
                     />
                   </div>
                 ))}
@@ -650,6 +836,7 @@ export default function TripPage() {
                         tripToken={tripToken}
                         day={day}
                         trip={trip}
+                        legs={routeLegs[day.id]}
                         readOnly={isReadOnly}
                         locationBadgeColor={tripDayColors.get(day.id)}
                         collapsible={{
@@ -660,6 +847,7 @@ export default function TripPage() {
                           },
                         }}
                         onPreviewLocationChange={(loc) => handlePreviewLocationChangeForDay(day.id, loc)}
+                        onPreviewOrderChange={handlePreviewOrderChange}
                         activeDestinationId={
                           selected.dayId === day.id || hovered.dayId === day.id
                             ? activeDestinationId
@@ -673,13 +861,8 @@ export default function TripPage() {
                         onDeleteDay={handleDeleteDay}
                         onRenameDay={handleRenameDay}
                         onMoveDestination={handleMoveDestination}
-                        onUpdate={(updatedDay) => {
-                          if (isReadOnly) return;
-                          const updatedDays = trip.days.map((d) =>
-                            d.id === updatedDay.id ? updatedDay : d
-                          );
-                          updateTrip({ ...trip, days: updatedDays });
-                        }}
+                        onApplyOps={handleApplyDayOps}
+                        onApplyOptimizedOrder={handleApplyOptimizedOrder}
                       />
                     </div>
                   );
@@ -708,8 +891,12 @@ export default function TripPage() {
                   label: day.label,
                   dayIndex: idx,
                   color: tripDayColors.get(day.id),
-                  destinations: day.destinations,
+                  travelMode: day.travelMode,
+                  destinations: destinationsForMap(day),
                 }))}
+                onRouteLegs={handleRouteLegs}
+                tripToken={tripToken}
+                readOnly={isReadOnly}
                 activeDestinationId={activeDestinationId}
                 previewLocation={previewLocation}
                 onDestinationClick={handleMapDestinationClick}
@@ -721,6 +908,27 @@ export default function TripPage() {
         )}
       </div>
 
+      {undoToast && (
+        <Toast
+          message={undoToast}
+          actionLabel="Undo"
+          onAction={() => undo()}
+          onDismiss={dismissUndoToast}
+        />
+      )}
+
+      {geoImport && (
+        <GeoImportModal
+          key={geoImport.fileName}
+          fileName={geoImport.fileName}
+          result={geoImport.result}
+          error={geoImport.error}
+          isImporting={isGeoImporting}
+          onClose={() => setGeoImport(null)}
+          onImport={handleGeoImport}
+        />
+      )}
+
       <TripSearchModal
         open={isSearchOpen}
         trip={trip}
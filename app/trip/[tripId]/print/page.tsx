@@ -0,0 +1,88 @@
+import { cookies } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import { PrintItinerary, type PrintDay } from '@/components/trip/PrintItinerary';
+import { getCachedDirections, getTripAccessByToken, setCachedDirections } from '@/lib/kv';
+import { TripLinkError, unlockCookieName } from '@/lib/link-protection';
+import { directionsSegmentKey, googleDirections, MAX_DIRECTIONS_POINTS } from '@/lib/directions';
+import { hasValidLocation } from '@/lib/discover';
+import { distinctRouteColor } from '@/lib/route-colors';
+import { staticMapUrl, type StaticMapPath } from '@/lib/static-map';
+import { DEFAULT_TRAVEL_MODE, splitRouteSegments } from '@/lib/travel-modes';
+import type { Day, RouteLeg } from '@/types/trip';
+
+/**
+ * Legs and map paths for one day, from the shared directions cache. Like the directions
+ * API, only editors fetch segments nobody has routed yet; otherwise those legs are left
+ * out and the map falls back to straight lines.
+ */
+async function loadDayRoute(day: Day, canFetch: boolean) {
+  const stops = day.destinations.filter(hasValidLocation);
+  const legs: RouteLeg[] = [];
+  const paths: StaticMapPath[] = [];
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY?.trim();
+
+  for (const segment of splitRouteSegments(stops, day.travelMode ?? DEFAULT_TRAVEL_MODE)) {
+    const request = {
+      mode: segment.mode,
+      points: segment.stops.map((d) => ({ lat: d.location!.lat, lng: d.location!.lng })),
+    };
+    const key = directionsSegmentKey(request);
+    let result = await getCachedDirections(key);
+    if (!result && canFetch && apiKey && request.points.length <= MAX_DIRECTIONS_POINTS) {
+      result = await googleDirections({ apiKey, segment: request });
+      if (result) await setCachedDirections(key, result);
+    }
+
+    paths.push(result ? { polyline: result.polyline } : { points: request.points });
+    result?.legs.forEach((leg, i) => {
+      legs.push({
+        fromDestinationId: segment.stops[i]!.id,
+        toDestinationId: segment.stops[i + 1]!.id,
+        ...leg,
+      });
+    });
+  }
+
+  return { stops, legs, paths };
+}
+
+export default async function PrintPage({ params }: { params: Promise<{ tripId: string }> }) {
+  const { tripId: token } = await params;
+  const proof = (await cookies()).get(unlockCookieName(token))?.value;
+  const access = await getTripAccessByToken(token, proof).catch((error: unknown) => {
+    // The trip page shows the unlock form or the expiry notice.
+    if (error instanceof TripLinkError) redirect(`/trip/${token}`);
+    throw error;
+  });
+  if (!access) {
+    notFound();
+  }
+
+  const { trip, role } = access;
+  // The image is fetched by the browser, so it has to use the public key.
+  const mapsKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY?.trim();
+
+  const days: PrintDay[] = [];
+  for (const [index, day] of trip.days.entries()) {
+    try {
+      const { stops, legs, paths } = await loadDayRoute(day, role === 'edit');
+      days.push({
+        day,
+        legs,
+        mapUrl: mapsKey
+          ? staticMapUrl({
+              apiKey: mapsKey,
+              stops: stops.map((d) => d.location),
+              paths,
+              color: distinctRouteColor(index),
+            })
+          : null,
+      });
+    } catch (error) {
+      console.error('Error loading route for print view:', error);
+      days.push({ day, legs: [], mapUrl: null });
+    }
+  }
+
+  return <PrintItinerary trip={trip} tripToken={token} days={days} />;
+}
@@ -1,13 +1,15 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import { MapPin, FileText, Sparkles } from 'lucide-react';
+import { MapPin, FileText, Sparkles, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
 import { PlaceSearch } from './PlaceSearch';
-import type { Destination, PlaceResult } from '@/types/trip';
+import type { Destination, PlaceResult, Trip } from '@/types/trip';
+import type { TripOp } from '@/lib/trip-ops';
 import { DiscoverPanel } from './DiscoverPanel';
+import { ImportDestinationsPanel } from './ImportDestinationsPanel';
 import type { ReactNode } from 'react';
 
 interface AddDestinationFormProps {
@@ -20,16 +22,25 @@ interface AddDestinationFormProps {
     onInsert: (nextDestinations: Destination[]) => void;
     onPreviewLocationChange?: (location: { lat: number; lng: number } | null) => void;
   };
+  /** Enables CSV/TSV import; rows may target other days, so this applies ops directly. */
+  importRows?: {
+    tripToken: string;
+    trip: Trip;
+    dayId: string;
+    /** Resolves to whether the import was saved; the panel stays open if not. */
+    onImport: (ops: TripOp[]) => Promise<boolean>;
+  };
   actionsTrailing?: ReactNode;
   actionsBelow?: ReactNode;
 }
 
-type Mode = 'search' | 'discover' | 'note' | null;
+type Mode = 'search' | 'discover' | 'note' | 'import' | null;
 
 export function AddDestinationForm({
   onAdd,
   locationBias,
   discover,
+  importRows,
   actionsTrailing,
   actionsBelow,
 }: AddDestinationFormProps) {
@@ -110,6 +121,18 @@ export function AddDestinationForm({
           <span className="min-w-0 whitespace-normal leading-tight">Add Note</span>
         </Button>
 
+        {importRows && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setMode((prev) => (prev === 'import' ? null : 'import'))}
+            className="w-full gap-2 justify-center min-w-0 sm:flex-1"
+          >
+            <Upload className="h-4 w-4 shrink-0" />
+            <span className="min-w-0 whitespace-normal leading-tight">Import</span>
+          </Button>
+        )}
+
         {actionsTrailing}
       </div>
 
@@ -126,6 +149,20 @@ export function AddDestinationForm({
         </div>
       )}
 
+      {importRows && mode === 'import' && (
+        <ImportDestinationsPanel
+          tripToken={importRows.tripToken}
+          trip={importRows.trip}
+          dayId={importRows.dayId}
+          locationBias={locationBias}
+          onImport={async (ops) => {
+            const saved = await importRows.onImport(ops);
+            if (saved) resetForm();
+          }}
+          onClose={() => setMode(null)}
+        />
+      )}
+
       {discover && (
         <DiscoverPanel
           tripToken={discover.tripToken}
@@ -1,25 +1,42 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { DestinationList } from './DestinationList';
 import { AddDestinationForm } from './AddDestinationForm';
-import { ChevronDown, Trash2 } from 'lucide-react';
+import { AlertTriangle, ChevronDown, Route, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { IconButton } from '@/components/ui/IconButton';
 import { Input } from '@/components/ui/Input';
 import { generateId } from '@/lib/ulid';
+import { formatIsoDate, getDayDate } from '@/lib/trip-dates';
+import { computeDayTimeline, formatMinutes, formatTimeOfDay } from '@/lib/day-timeline';
+import { formatDistance, sumLegs } from '@/lib/distance-units';
+import { useDistanceUnit } from '@/hooks/useDistanceUnit';
+import { DistanceUnitToggle } from '@/components/trip/DistanceUnitToggle';
 import { MoveToDayModal } from '@/components/itinerary/MoveToDayModal';
-import type { Coordinates, Day, Trip } from '@/types/trip';
+import { TravelModePicker } from '@/components/itinerary/TravelModePicker';
+import { OptimizeRoutePanel } from '@/components/itinerary/OptimizeRoutePanel';
+import { hasValidLocation } from '@/lib/discover';
+import { DEFAULT_TRAVEL_MODE, getDayTravelMode } from '@/lib/travel-modes';
+import { diffDestination, type TripOp } from '@/lib/trip-ops';
+import type { Coordinates, Day, Destination, RouteLeg, Trip } from '@/types/trip';
 
 interface DayEditorProps {
   tripToken: string;
   day: Day;
   trip: Trip;
-  onUpdate: (day: Day) => void;
+  /** Legs for this day from the map's Directions results; feeds the timeline. */
+  legs?: RouteLeg[];
+  /** Resolves to whether the ops were saved. */
+  onApplyOps: (ops: TripOp[]) => Promise<boolean>;
+  /** Saves an optimized stop order; unlike ops, refused if the trip changed meanwhile. */
+  onApplyOptimizedOrder: (dayId: string, destinations: Destination[]) => void;
   onMoveDestination: (fromDayId: string, destinationId: string, toDayId: string) => void;
   onDeleteDay?: (dayId: string) => void;
   onRenameDay?: (dayId: string, newLabel: string) => void;
   onPreviewLocationChange?: (location: Coordinates | null) => void;
+  /** Shows a proposed stop order on the map (null clears it). */
+  onPreviewOrderChange?: (dayId: string, destinations: Destination[] | null) => void;
   activeDestinationId?: string;
   onSelectDestination?: (destinationId: string) => void;
   readOnly?: boolean;
@@ -34,11 +51,14 @@ export function DayEditor({
   tripToken,
   day,
   trip,
-  onUpdate,
+  legs,
+  onApplyOps,
+  onApplyOptimizedOrder,
   onMoveDestination,
   onDeleteDay,
   onRenameDay,
   onPreviewLocationChange,
+  onPreviewOrderChange,
   activeDestinationId,
   onSelectDestination,
   readOnly = false,
@@ -49,6 +69,16 @@ export function DayEditor({
   const [editLabel, setEditLabel] = useState('');
   const canDeleteDay = !readOnly && trip.days.length > 1 && !!onDeleteDay;
   const [moveDestinationId, setMoveDestinationId] = useState<string | null>(null);
+  const date = getDayDate(trip, trip.days.findIndex((d) => d.id === day.id));
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const canOptimize = !readOnly && day.destinations.filter(hasValidLocation).length >= 3;
+  const handlePreviewOrder = useCallback(
+    (destinations: Destination[] | null) => onPreviewOrderChange?.(day.id, destinations),
+    [onPreviewOrderChange, day.id]
+  );
+  const timeline = useMemo(() => computeDayTimeline(day.destinations, legs), [day.destinations, legs]);
+  const totals = useMemo(() => sumLegs(legs), [legs]);
+  const [distanceUnit] = useDistanceUnit();
 
   const handleStartEdit = () => {
     if (readOnly) return;
@@ -139,6 +169,11 @@ export function DayEditor({
               >
                 {day.label}
               </button>
+              {date && (
+                <span className="shrink-0 pr-2 text-xs sm:text-sm text-ink-light">
+                  {formatIsoDate(date, { year: true })}
+                </span>
+              )}
             </div>
           )}
         </div>
@@ -149,7 +184,7 @@ export function DayEditor({
             className="sm:hidden shrink-0 h-7 w-7 border border-border/50 hover:border-border text-ink-light hover:text-red-700"
             onClick={() => {
               const ok = confirm(
-                `Delete ${day.label}? This will remove the entire day and its destinations. This action cannot be undone.`
+                `Delete ${day.label}? This will remove the entire day and its destinations.`
               );
               if (!ok) return;
               onDeleteDay?.(day.id);
@@ -167,6 +202,47 @@ export function DayEditor({
       </div>
 
       <div className={collapsible && !collapsible.isOpen ? 'hidden' : 'block'}>
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+          <TravelModePicker
+            value={getDayTravelMode(day)}
+            readOnly={readOnly}
+            onChange={(mode) => {
+              if (readOnly) return;
+              onApplyOps([
+                {
+                  type: 'setDayTravelMode',
+                  dayId: day.id,
+                  travelMode: mode === DEFAULT_TRAVEL_MODE ? null : mode,
+                },
+              ]);
+            }}
+          />
+          {canOptimize && !isOptimizing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1.5"
+              onClick={() => setIsOptimizing(true)}
+              title="Reorder stops to shorten the route"
+            >
+              <Route className="h-3.5 w-3.5" />
+              Optimize order
+            </Button>
+          )}
+        </div>
+
+        {canOptimize && isOptimizing && (
+          <OptimizeRoutePanel
+            destinations={day.destinations}
+            onPreviewChange={handlePreviewOrder}
+            onClose={() => setIsOptimizing(false)}
+            onApply={(destinations) => {
+              onApplyOptimizedOrder(day.id, destinations);
+              setIsOptimizing(false);
+            }}
+          />
+        )}
+
         {!readOnly && (
           <AddDestinationForm
             locationBias={
@@ -176,6 +252,15 @@ export function DayEditor({
                     .slice(-1)[0]?.location
                 : undefined
             }
+            importRows={{
+              tripToken,
+              trip,
+              dayId: day.id,
+              onImport: async (ops) => {
+                if (readOnly) return false;
+                return onApplyOps(ops);
+              },
+            }}
             discover={{
               tripToken,
               dayId: day.id,
@@ -183,7 +268,18 @@ export function DayEditor({
               onPreviewLocationChange,
               onInsert: (nextDestinations) => {
                 if (readOnly) return;
-                onUpdate({ ...day, destinations: nextDestinations });
+                const existingIds = new Set(day.destinations.map((d) => d.id));
+                const ops: TripOp[] = [];
+                nextDestinations.forEach((destination, index) => {
+                  if (existingIds.has(destination.id)) return;
+                  ops.push({
+                    type: 'addDestination',
+                    dayId: day.id,
+                    destination,
+                    afterDestinationId: nextDestinations[index - 1]?.id ?? null,
+                  });
+                });
+                if (ops.length > 0) onApplyOps(ops);
               },
             }}
           actionsTrailing={
@@ -196,7 +292,7 @@ export function DayEditor({
                 onClick={() => {
                   if (!canDeleteDay) return;
                   const ok = confirm(
-                    `Delete ${day.label}? This will remove the entire day and its destinations. This action cannot be undone.`
+                    `Delete ${day.label}? This will remove the entire day and its destinations.`
                   );
                   if (!ok) return;
                   onDeleteDay?.(day.id);
@@ -214,43 +310,89 @@ export function DayEditor({
           }
           actionsBelow={null}
             onAdd={(destination) => {
-              onUpdate({
-                ...day,
-                destinations: [
-                  ...day.destinations,
-                  { ...destination, id: generateId() },
-                ],
-              });
+              onApplyOps([
+                {
+                  type: 'addDestination',
+                  dayId: day.id,
+                  destination: { ...destination, id: generateId() },
+                },
+              ]);
             }}
           />
         )}
 
+        {timeline.warnings.length > 0 && (
+          <div
+            className="mb-3 flex items-start gap-2 rounded-xl border border-yellow-300 bg-yellow-50 px-3 py-2 text-sm text-ink"
+            role="status"
+          >
+            <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5 text-yellow-700" />
+            <ul className="min-w-0 space-y-0.5">
+              {timeline.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <DestinationList
           destinations={day.destinations}
+          dayTravelMode={getDayTravelMode(day)}
+          timeline={timeline}
+          legs={legs}
           readOnly={readOnly}
           locationBadgeColor={locationBadgeColor}
           activeDestinationId={activeDestinationId}
           onSelectDestination={onSelectDestination}
           onReorder={(destinations) => {
             if (readOnly) return;
-            onUpdate({ ...day, destinations });
+            onApplyOps([
+              {
+                type: 'reorderDestinations',
+                dayId: day.id,
+                destinationIds: destinations.map((d) => d.id),
+              },
+            ]);
           }}
           onUpdate={(index, destination) => {
             if (readOnly) return;
-            const updated = [...day.destinations];
-            updated[index] = destination;
-            onUpdate({ ...day, destinations: updated });
+            const before = day.destinations[index];
+            if (!before) return;
+            const changes = diffDestination(before, destination);
+            if (Object.keys(changes).length === 0) return;
+            onApplyOps([
+              { type: 'updateDestination', dayId: day.id, destinationId: destination.id, changes },
+            ]);
           }}
           onDelete={(index) => {
             if (readOnly) return;
-            const updated = day.destinations.filter((_, i) => i !== index);
-            onUpdate({ ...day, destinations: updated });
+            const destination = day.destinations[index];
+            if (!destination) return;
+            onApplyOps([
+              { type: 'deleteDestination', dayId: day.id, destinationId: destination.id },
+            ]);
           }}
           onMove={(destinationId) => {
             if (readOnly) return;
             setMoveDestinationId(destinationId);
           }}
         />
+
+        {totals.legCount > 0 && day.destinations.length > 0 && (
+          <div className="mt-2 flex items-center justify-between gap-2 px-1 text-xs text-ink-light">
+            <span>
+              Day total: {formatMinutes(totals.durationSeconds / 60)} travelling ·{' '}
+              {formatDistance(totals.distanceMeters, distanceUnit)}
+            </span>
+            <DistanceUnitToggle />
+          </div>
+        )}
+
+        {timeline.endMinutes != null && day.destinations.length > 0 && (
+          <p className="mt-2 px-1 text-xs text-ink-light">
+            Day ends around {formatTimeOfDay(timeline.endMinutes)}
+          </p>
+        )}
       </div>
 
       <MoveToDayModal
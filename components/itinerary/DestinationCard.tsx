@@ -1,7 +1,7 @@
 'use client';
 
-import { useEffect, useRef, useState, type ReactNode } from 'react';
-import { Edit2, Trash2, Navigation, FileText, MoreVertical, ArrowLeftRight } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Edit2, Trash2, Navigation, FileText, MoreVertical, ArrowLeftRight, Clock, Lock } from 'lucide-react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Card } from '@/components/ui/Card';
@@ -9,64 +9,24 @@ import { IconButton } from '@/components/ui/IconButton';
 import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
 import { Button } from '@/components/ui/Button';
+import { renderTextWithLinks } from '@/components/itinerary/TextWithLinks';
 import { getGoogleMapsNavigationUrl } from '@/lib/navigation';
-import type { Destination } from '@/types/trip';
+import { formatMinutes, formatTimeOfDay, type TimelineStop } from '@/lib/day-timeline';
+import { TRAVEL_MODE_ICONS } from '@/components/itinerary/TravelModePicker';
+import { DEFAULT_TRAVEL_MODE, TRAVEL_MODE_LABELS, TRAVEL_MODES } from '@/lib/travel-modes';
+import type { Destination, TravelMode } from '@/types/trip';
 import { useRovingListNavigation } from '@/hooks/useRovingListNavigation';
 
-const URL_REGEX = /(https?:\/\/[^\s<]+|www\.[^\s<]+)/g;
-const TRAILING_PUNCT = new Set([',', '.', ';', ':', '!', '?', ')', ']', '}', '"', "'"]);
-
-function splitTrailingPunctuation(raw: string): { urlPart: string; trailing: string } {
-  let urlPart = raw;
-  let trailing = '';
-
-  while (urlPart.length > 0 && TRAILING_PUNCT.has(urlPart[urlPart.length - 1]!)) {
-    trailing = urlPart[urlPart.length - 1]! + trailing;
-    urlPart = urlPart.slice(0, -1);
-  }
-
-  return { urlPart, trailing };
-}
-
-function renderTextWithLinks(text: string): ReactNode {
-  const parts = text.split(URL_REGEX);
-  return parts.map((part, idx) => {
-    // With a capturing group, split() includes matches at odd indices.
-    const isMatch = idx % 2 === 1;
-    if (!isMatch) return <span key={idx}>{part}</span>;
-
-    const { urlPart, trailing } = splitTrailingPunctuation(part);
-    if (!urlPart) return <span key={idx}>{part}</span>;
-
-    const href = urlPart.startsWith('http://') || urlPart.startsWith('https://')
-      ? urlPart
-      : `https://${urlPart}`;
-
-    return (
-      <span key={idx}>
-        <a
-          href={href}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-forest hover:text-forest-light underline underline-offset-2"
-          onClick={(e) => e.stopPropagation()}
-          onPointerDown={(e) => e.stopPropagation()}
-          onTouchStart={(e) => e.stopPropagation()}
-        >
-          {urlPart}
-        </a>
-        {trailing}
-      </span>
-    );
-  });
-}
-
 interface DestinationCardProps {
   destination: Destination;
   locationNumber?: number;
   locationBadgeColor?: string;
   isActive?: boolean;
   readOnly?: boolean;
+  /** This stop's place in the day timeline, if any times are planned. */
+  schedule?: TimelineStop;
+  /** The day's mode; a destination can override it for the leg arriving here. */
+  dayTravelMode?: TravelMode;
   onUpdate: (updated: Destination) => void;
   onDelete: () => void;
   onMove?: () => void;
@@ -78,6 +38,8 @@ export function DestinationCard({
   locationBadgeColor,
   isActive,
   readOnly = false,
+  schedule,
+  dayTravelMode = DEFAULT_TRAVEL_MODE,
   onUpdate,
   onDelete,
   onMove,
@@ -85,6 +47,12 @@ export function DestinationCard({
   const [isEditing, setIsEditing] = useState(false);
   const [name, setName] = useState(destination.name);
   const [notes, setNotes] = useState(destination.notes);
+  const [arrivalTime, setArrivalTime] = useState(destination.arrivalTime ?? '');
+  const [durationMinutes, setDurationMinutes] = useState(
+    destination.durationMinutes != null ? String(destination.durationMinutes) : ''
+  );
+  const [fixedTime, setFixedTime] = useState(destination.fixedTime ?? false);
+  const [travelMode, setTravelMode] = useState<TravelMode | ''>(destination.travelMode ?? '');
   const [menuOpen, setMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement | null>(null);
   const menuRootRef = useRef<HTMLDivElement | null>(null);
@@ -158,10 +126,16 @@ export function DestinationCard({
   const handleSave = () => {
     if (readOnly) return;
     if (name.trim()) {
+      const duration = Number.parseInt(durationMinutes, 10);
       onUpdate({
         ...destination,
         name: name.trim(),
         notes: notes.trim(),
+        arrivalTime: arrivalTime || undefined,
+        durationMinutes:
+          Number.isFinite(duration) && duration > 0 ? Math.min(duration, 24 * 60) : undefined,
+        fixedTime: arrivalTime && fixedTime ? true : undefined,
+        travelMode: travelMode || undefined,
       });
       setIsEditing(false);
     }
@@ -170,9 +144,30 @@ export function DestinationCard({
   const handleCancel = () => {
     setName(destination.name);
     setNotes(destination.notes);
+    setArrivalTime(destination.arrivalTime ?? '');
+    setDurationMinutes(destination.durationMinutes != null ? String(destination.durationMinutes) : '');
+    setFixedTime(destination.fixedTime ?? false);
+    setTravelMode(destination.travelMode ?? '');
     setIsEditing(false);
   };
 
+  const LegModeIcon =
+    hasLocation && destination.travelMode && destination.travelMode !== dayTravelMode
+      ? TRAVEL_MODE_ICONS[destination.travelMode]
+      : null;
+
+  const scheduleLabel = (() => {
+    if (!schedule || schedule.arrival == null) {
+      return destination.durationMinutes ? formatMinutes(destination.durationMinutes) : null;
+    }
+    const arrival = `${schedule.scheduled ? '' : '~'}${formatTimeOfDay(schedule.arrival)}`;
+    const departure =
+      schedule.departure != null && schedule.departure > schedule.arrival
+        ? `–${formatTimeOfDay(schedule.departure)}`
+        : '';
+    return `${arrival}${departure}`;
+  })();
+
   return (
     <Card
       ref={setNodeRef}
@@ -231,6 +226,63 @@ export function DestinationCard({
               rows={2}
               className="text-sm"
             />
+            <div className="flex flex-wrap items-center gap-2 text-sm text-ink-light">
+              <label className="flex items-center gap-1.5">
+                <span>Arrive</span>
+                <Input
+                  type="time"
+                  value={arrivalTime}
+                  onChange={(e) => setArrivalTime(e.target.value)}
+                  className="h-9 w-28 px-2 py-1 text-sm"
+                />
+              </label>
+              <label className="flex items-center gap-1.5">
+                <span>Stay</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={15}
+                  inputMode="numeric"
+                  value={durationMinutes}
+                  onChange={(e) => setDurationMinutes(e.target.value)}
+                  placeholder="min"
+                  className="h-9 w-20 px-2 py-1 text-sm"
+                />
+              </label>
+              <label
+                className={[
+                  'flex items-center gap-1.5',
+                  arrivalTime ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed',
+                ].join(' ')}
+                title="The arrival time can't move, e.g. a reservation"
+              >
+                <input
+                  type="checkbox"
+                  checked={fixedTime && !!arrivalTime}
+                  disabled={!arrivalTime}
+                  onChange={(e) => setFixedTime(e.target.checked)}
+                  className="accent-forest"
+                />
+                <span>Fixed time</span>
+              </label>
+              {hasLocation && (
+                <label className="flex items-center gap-1.5">
+                  <span>Get here by</span>
+                  <select
+                    value={travelMode}
+                    onChange={(e) => setTravelMode(e.target.value as TravelMode | '')}
+                    className="h-9 rounded-xl border border-border/50 bg-parchment px-2 text-sm text-ink focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-forest"
+                  >
+                    <option value="">Day default ({TRAVEL_MODE_LABELS[dayTravelMode]})</option>
+                    {TRAVEL_MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {TRAVEL_MODE_LABELS[mode]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
             <div className="flex gap-2">
               <Button size="sm" onClick={handleSave}>
                 Save
@@ -245,6 +297,32 @@ export function DestinationCard({
             <div className="flex items-start justify-between gap-2">
               <div className="flex-1 min-w-0">
                 <h3 className="font-semibold text-ink text-base leading-tight wrap-break-word">{destination.name}</h3>
+                {LegModeIcon && destination.travelMode && (
+                  <p className="mt-0.5 flex items-center gap-1 text-xs text-ink-light">
+                    <LegModeIcon className="h-3 w-3 shrink-0" />
+                    <span>{TRAVEL_MODE_LABELS[destination.travelMode]} here</span>
+                  </p>
+                )}
+                {scheduleLabel && (
+                  <p
+                    className={[
+                      'mt-0.5 flex items-center gap-1 text-xs',
+                      schedule?.lateMinutes ? 'text-red-700' : 'text-ink-light',
+                    ].join(' ')}
+                  >
+                    {destination.fixedTime ? (
+                      <Lock className="h-3 w-3 shrink-0" aria-label="Fixed time" />
+                    ) : (
+                      <Clock className="h-3 w-3 shrink-0" />
+                    )}
+                    <span>{scheduleLabel}</span>
+                    {schedule?.lateMinutes ? (
+                      <span>· {formatMinutes(schedule.lateMinutes)} late</span>
+                    ) : schedule && schedule.waitMinutes >= 5 ? (
+                      <span>· {formatMinutes(schedule.waitMinutes)} spare before</span>
+                    ) : null}
+                  </p>
+                )}
                 {destination.address && (
                   <p className="mt-0.5 text-xs text-ink wrap-break-word">
                     {destination.address}
@@ -18,7 +18,12 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { DestinationCard } from './DestinationCard';
-import type { Destination } from '@/types/trip';
+import { TRAVEL_MODE_ICONS } from './TravelModePicker';
+import type { Destination, RouteLeg, TravelMode } from '@/types/trip';
+import { formatMinutes, type DayTimeline } from '@/lib/day-timeline';
+import { formatDistance } from '@/lib/distance-units';
+import { DEFAULT_TRAVEL_MODE, getLegTravelMode } from '@/lib/travel-modes';
+import { useDistanceUnit } from '@/hooks/useDistanceUnit';
 import { useRef } from 'react';
 
 interface DestinationListProps {
@@ -31,6 +36,24 @@ interface DestinationListProps {
   onSelectDestination?: (destinationId: string) => void;
   readOnly?: boolean;
   locationBadgeColor?: string;
+  timeline?: DayTimeline;
+  dayTravelMode?: TravelMode;
+  /** Directions legs for this day, shown between consecutive located stops. */
+  legs?: RouteLeg[];
+}
+
+function LegConnector({ leg, mode }: { leg: RouteLeg; mode: TravelMode }) {
+  const [unit] = useDistanceUnit();
+  const Icon = TRAVEL_MODE_ICONS[mode];
+  return (
+    <div className="mb-1.5 flex items-center gap-1.5 pl-5 text-xs text-ink-light">
+      <span className="h-3 border-l border-dashed border-ink-light/50" aria-hidden />
+      <Icon className="h-3 w-3 shrink-0" />
+      <span>
+        {formatMinutes(leg.durationSeconds / 60)} · {formatDistance(leg.distanceMeters, unit)}
+      </span>
+    </div>
+  );
 }
 
 export function DestinationList({
@@ -43,6 +66,9 @@ export function DestinationList({
   onSelectDestination,
   readOnly = false,
   locationBadgeColor,
+  timeline,
+  dayTravelMode,
+  legs,
 }: DestinationListProps) {
   const isDraggingRef = useRef(false);
 
@@ -92,18 +118,29 @@ export function DestinationList({
     );
   }
 
+  const legsByPair = new Map(
+    (legs ?? []).map((leg) => [`${leg.fromDestinationId}>${leg.toDestinationId}`, leg])
+  );
+  const legMode = dayTravelMode ?? DEFAULT_TRAVEL_MODE;
+
   // Only destinations with locations get numbers.
   let locationCounter = 0;
+  let previousLocatedId: string | null = null;
   const renderItems = validDestinations.map((destination) => {
     const isLocation = hasValidLocation(destination);
     const locationNumber = isLocation ? ++locationCounter : undefined;
-    return { destination, locationNumber };
+    let legIn: RouteLeg | undefined;
+    if (isLocation) {
+      if (previousLocatedId) legIn = legsByPair.get(`${previousLocatedId}>${destination.id}`);
+      previousLocatedId = destination.id;
+    }
+    return { destination, locationNumber, legIn };
   });
 
   if (readOnly) {
     return (
       <div className="flex flex-col">
-        {renderItems.map(({ destination, locationNumber }, index) => {
+        {renderItems.map(({ destination, locationNumber, legIn }, index) => {
           const isLast = index === validDestinations.length - 1;
           return (
             <div
@@ -120,11 +157,14 @@ export function DestinationList({
                 onSelectDestination(destination.id);
               }}
             >
+              {legIn && <LegConnector leg={legIn} mode={getLegTravelMode(destination, legMode)} />}
               <DestinationCard
                 destination={destination}
                 locationNumber={locationNumber}
                 locationBadgeColor={locationBadgeColor}
                 isActive={destination.id === activeDestinationId}
+                schedule={timeline?.stops.get(destination.id)}
+                dayTravelMode={dayTravelMode}
                 readOnly
                 onUpdate={() => {}}
                 onDelete={() => {}}
@@ -150,7 +190,7 @@ export function DestinationList({
         strategy={verticalListSortingStrategy}
       >
         <div className="flex flex-col">
-          {renderItems.map(({ destination, locationNumber }, index) => {
+          {renderItems.map(({ destination, locationNumber, legIn }, index) => {
             const originalIndex = destinations.findIndex((d) => d.id === destination.id);
             const isLast = index === validDestinations.length - 1;
             return (
@@ -166,11 +206,14 @@ export function DestinationList({
                   onSelectDestination(destination.id);
                 }}
               >
+                {legIn && <LegConnector leg={legIn} mode={getLegTravelMode(destination, legMode)} />}
                 <DestinationCard
                   destination={destination}
                   locationNumber={locationNumber}
                   locationBadgeColor={locationBadgeColor}
                   isActive={destination.id === activeDestinationId}
+                  schedule={timeline?.stops.get(destination.id)}
+                  dayTravelMode={dayTravelMode}
                   onUpdate={(updated) => onUpdate(originalIndex, updated)}
                   onDelete={() => onDelete(originalIndex)}
                   onMove={onMove ? () => onMove(destination.id) : undefined}
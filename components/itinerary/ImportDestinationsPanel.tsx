@@ -0,0 +1,241 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Check, MapPin, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { IconButton } from '@/components/ui/IconButton';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { Textarea } from '@/components/ui/Textarea';
+import { matchImportDay, parseDestinationImport, type ImportRow } from '@/lib/csv-import';
+import { MAX_GEOCODE_QUERIES, type GooglePlacesCanonicalPlace } from '@/lib/google-places';
+import type { TripOp } from '@/lib/trip-ops';
+import { generateId } from '@/lib/ulid';
+import type { Coordinates, Day, Destination, Trip } from '@/types/trip';
+
+interface ImportDestinationsPanelProps {
+  tripToken: string;
+  trip: Trip;
+  /** Rows without a `day` column go here. */
+  dayId: string;
+  locationBias?: Coordinates;
+  onImport: (ops: TripOp[]) => Promise<void>;
+  onClose: () => void;
+}
+
+type LookupResult = GooglePlacesCanonicalPlace | null;
+
+export function ImportDestinationsPanel({
+  tripToken,
+  trip,
+  dayId,
+  locationBias,
+  onImport,
+  onClose,
+}: ImportDestinationsPanelProps) {
+  const [text, setText] = useState('');
+  // Keyed by source line; null = looked up but not found.
+  const [lookups, setLookups] = useState<Map<number, LookupResult>>(new Map());
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => (text.trim() ? parseDestinationImport(text) : null), [text]);
+  const rows = useMemo(() => parsed?.rows ?? [], [parsed]);
+  const currentDay = trip.days.find((d) => d.id === dayId);
+
+  const targetFor = (row: ImportRow): { day: Day | null; label: string } => {
+    if (!row.day) return { day: currentDay ?? null, label: currentDay?.label ?? '' };
+    const day = matchImportDay(trip, row.day);
+    return { day, label: day?.label ?? row.day };
+  };
+
+  const needsLookup = rows.filter((r) => !r.location && !lookups.has(r.line));
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setLookups(new Map());
+    setText(await file.text());
+  };
+
+  const handleLookup = async () => {
+    if (needsLookup.length === 0) return;
+    setIsLookingUp(true);
+    setError(null);
+    try {
+      // Batches land one at a time, so a failure keeps the rows already found.
+      for (let start = 0; start < needsLookup.length; start += MAX_GEOCODE_QUERIES) {
+        const batch = needsLookup.slice(start, start + MAX_GEOCODE_QUERIES);
+        const response = await fetch(`/api/trips/${tripToken}/geocode`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            queries: batch.map((r) => (r.address ? `${r.name} ${r.address}` : r.name)),
+            locationBias,
+          }),
+        });
+        const data = (await response.json().catch(() => ({}))) as {
+          error?: string;
+          results?: LookupResult[];
+        };
+        if (!response.ok || !data.results) throw new Error(data.error || 'Failed to look up places');
+
+        const results = data.results;
+        setLookups((prev) => {
+          const next = new Map(prev);
+          batch.forEach((row, i) => next.set(row.line, results[i] ?? null));
+          return next;
+        });
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to look up places');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const ops: TripOp[] = [];
+    const newDays = new Map<string, Destination[]>();
+
+    for (const row of rows) {
+      const place = lookups.get(row.line);
+      const destination: Destination = {
+        id: generateId(),
+        name: row.name,
+        notes: row.notes,
+        ...(row.address || place?.address ? { address: row.address || place?.address } : {}),
+        ...(row.location
+          ? { location: row.location }
+          : place
+            ? { location: place.location, placeId: place.placeId }
+            : {}),
+      };
+
+      const target = targetFor(row);
+      if (target.day) {
+        ops.push({ type: 'addDestination', dayId: target.day.id, destination });
+      } else {
+        newDays.set(target.label, [...(newDays.get(target.label) ?? []), destination]);
+      }
+    }
+
+    newDays.forEach((destinations, label) => {
+      ops.push({ type: 'addDay', day: { id: generateId(), label, destinations } });
+    });
+
+    if (ops.length === 0) return;
+    setIsImporting(true);
+    try {
+      await onImport(ops);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const newDayLabels = new Set(rows.filter((r) => !targetFor(r).day).map((r) => targetFor(r).label));
+
+  return (
+    <div className="rounded-xl border border-border/50 bg-parchment-mid card-elevated p-4 text-sm text-ink">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-semibold">
+          <Upload className="h-4 w-4 text-forest" />
+          Import from spreadsheet
+        </div>
+        <IconButton variant="ghost" size="sm" className="h-8 w-8" onClick={onClose} title="Close">
+          <X className="h-4 w-4" />
+        </IconButton>
+      </div>
+      <p className="mt-1 text-xs text-ink-light">
+        Paste CSV or TSV with a header row: name, address, lat, lng, notes, day.
+      </p>
+
+      <Textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setLookups(new Map());
+        }}
+        placeholder={'name,address,notes,day\nFushimi Inari,,Go early,1'}
+        rows={4}
+        className="mt-2 font-mono text-xs"
+      />
+      <label className="mt-2 inline-flex items-center gap-1.5 text-xs text-forest cursor-pointer hover:underline">
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleFile(file);
+          }}
+        />
+        Or choose a file…
+      </label>
+
+      {parsed && parsed.warnings.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs text-yellow-800">
+          {parsed.warnings.map((w) => (
+            <li key={w} className="flex items-start gap-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+              {w}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {rows.length > 0 && (
+        <ol className="mt-3 max-h-64 overflow-y-auto divide-y divide-border/40 rounded-lg border border-border/50 bg-parchment">
+          {rows.map((row) => {
+            const place = lookups.get(row.line);
+            const target = targetFor(row);
+            return (
+              <li key={row.line} className="flex items-center gap-2 px-3 py-1.5">
+                {row.location || place ? (
+                  <Check className="h-3.5 w-3.5 shrink-0 text-forest" aria-label="Has location" />
+                ) : (
+                  <MapPin className="h-3.5 w-3.5 shrink-0 text-ink-light" aria-label="No location" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{row.name}</div>
+                  <div className="truncate text-xs text-ink-light">
+                    {row.address || place?.address || (lookups.has(row.line) && !place ? 'Not found; added as a note' : '')}
+                  </div>
+                </div>
+                <span className="shrink-0 text-xs text-ink-light">
+                  {target.day ? target.label : `New: ${target.label}`}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      {rows.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          {needsLookup.length > 0 && (
+            <Button size="sm" variant="secondary" onClick={handleLookup} disabled={isLookingUp}>
+              {isLookingUp ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+              Look up {needsLookup.length} {needsLookup.length === 1 ? 'location' : 'locations'}
+            </Button>
+          )}
+          <Button size="sm" onClick={handleImport} disabled={isLookingUp || isImporting}>
+            {isImporting ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+            Import {rows.length} {rows.length === 1 ? 'row' : 'rows'}
+          </Button>
+          {newDayLabels.size > 0 && (
+            <span className="text-xs text-ink-light">
+              Adds {newDayLabels.size} new {newDayLabels.size === 1 ? 'day' : 'days'}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Route, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { IconButton } from '@/components/ui/IconButton';
+import { hasValidLocation } from '@/lib/discover';
+import { optimizeStopOrder } from '@/lib/route-optimizer';
+import { formatDistance } from '@/lib/distance-units';
+import { useDistanceUnit } from '@/hooks/useDistanceUnit';
+import type { Destination } from '@/types/trip';
+
+interface OptimizeRoutePanelProps {
+  destinations: Destination[];
+  /** Shows the proposed order on the map; null restores the saved order. */
+  onPreviewChange: (destinations: Destination[] | null) => void;
+  onApply: (destinations: Destination[]) => void;
+  onClose: () => void;
+}
+
+export function OptimizeRoutePanel({
+  destinations,
+  onPreviewChange,
+  onApply,
+  onClose,
+}: OptimizeRoutePanelProps) {
+  const [pinFirst, setPinFirst] = useState(false);
+  const [pinLast, setPinLast] = useState(false);
+  const [unit] = useDistanceUnit();
+  const formatKm = (km: number) => formatDistance(km * 1000, unit);
+
+  const located = destinations.filter(hasValidLocation);
+  const first = located[0];
+  const last = located[located.length - 1];
+
+  const result = useMemo(
+    () => optimizeStopOrder(destinations, { pinFirst, pinLast }),
+    [destinations, pinFirst, pinLast]
+  );
+  const changed = result.destinations.some((d, i) => d.id !== destinations[i]?.id);
+
+  useEffect(() => {
+    onPreviewChange(changed ? result.destinations : null);
+  }, [changed, result, onPreviewChange]);
+
+  // Always drop the preview when the panel goes away.
+  useEffect(() => () => onPreviewChange(null), [onPreviewChange]);
+
+  const savedKm = result.beforeKm - result.afterKm;
+
+  return (
+    <div className="mb-3 rounded-xl border border-border/60 bg-parchment-mid p-3 text-sm text-ink">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-semibold">
+          <Route className="h-4 w-4 text-forest" />
+          Optimize order
+        </div>
+        <IconButton variant="ghost" size="sm" className="h-8 w-8" onClick={onClose} title="Close">
+          <X className="h-4 w-4" />
+        </IconButton>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-ink-light">
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={pinFirst}
+            onChange={(e) => setPinFirst(e.target.checked)}
+            className="accent-forest"
+          />
+          <span className="truncate">Start at {first?.name || 'first stop'}</span>
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={pinLast}
+            onChange={(e) => setPinLast(e.target.checked)}
+            className="accent-forest"
+          />
+          <span className="truncate">End at {last?.name || 'last stop'}</span>
+        </label>
+      </div>
+
+      <p className="mt-2">
+        {changed ? (
+          <>
+            {formatKm(result.beforeKm)} → <span className="font-semibold">{formatKm(result.afterKm)}</span>
+            <span className="text-forest"> (saves {formatKm(savedKm)})</span>
+          </>
+        ) : (
+          <span className="text-ink-light">This order is already the shortest we found.</span>
+        )}
+      </p>
+      <p className="text-xs text-ink-light">Straight-line distances; preview shown on the map.</p>
+
+      {changed && (
+        <ol className="mt-2 list-decimal pl-5 text-xs text-ink-light space-y-0.5">
+          {result.destinations.filter(hasValidLocation).map((d) => (
+            <li key={d.id} className="truncate">
+              {d.name}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        <Button size="sm" disabled={!changed} onClick={() => onApply(result.destinations)}>
+          Apply new order
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import type { ReactNode } from 'react';
+
+const URL_REGEX = /(https?:\/\/[^\s<]+|www\.[^\s<]+)/g;
+const TRAILING_PUNCT = new Set([',', '.', ';', ':', '!', '?', ')', ']', '}', '"', "'"]);
+
+function splitTrailingPunctuation(raw: string): { urlPart: string; trailing: string } {
+  let urlPart = raw;
+  let trailing = '';
+
+  while (urlPart.length > 0 && TRAILING_PUNCT.has(urlPart[urlPart.length - 1]!)) {
+    trailing = urlPart[urlPart.length - 1]! + trailing;
+    urlPart = urlPart.slice(0, -1);
+  }
+
+  return { urlPart, trailing };
+}
+
+/** Plain text with bare URLs turned into links that open in a new tab. */
+export function renderTextWithLinks(text: string): ReactNode {
+  const parts = text.split(URL_REGEX);
+  return parts.map((part, idx) => {
+    // With a capturing group, split() includes matches at odd indices.
+    const isMatch = idx % 2 === 1;
+    if (!isMatch) return <span key={idx}>{part}</span>;
+
+    const { urlPart, trailing } = splitTrailingPunctuation(part);
+    if (!urlPart) return <span key={idx}>{part}</span>;
+
+    const href = urlPart.startsWith('http://') || urlPart.startsWith('https://')
+      ? urlPart
+      : `https://${urlPart}`;
+
+    return (
+      <span key={idx}>
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-forest hover:text-forest-light underline underline-offset-2"
+          onClick={(e) => e.stopPropagation()}
+          onPointerDown={(e) => e.stopPropagation()}
+          onTouchStart={(e) => e.stopPropagation()}
+        >
+          {urlPart}
+        </a>
+        {trailing}
+      </span>
+    );
+  });
+}
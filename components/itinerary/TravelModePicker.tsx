@@ -0,0 +1,62 @@
+'use client';
+
+import { Bike, Car, Footprints, TrainFront, type LucideIcon } from 'lucide-react';
+import { TRAVEL_MODE_LABELS, TRAVEL_MODES } from '@/lib/travel-modes';
+import type { TravelMode } from '@/types/trip';
+
+export const TRAVEL_MODE_ICONS: Record<TravelMode, LucideIcon> = {
+  driving: Car,
+  walking: Footprints,
+  transit: TrainFront,
+  bicycling: Bike,
+};
+
+interface TravelModePickerProps {
+  value: TravelMode;
+  onChange: (mode: TravelMode) => void;
+  readOnly?: boolean;
+}
+
+export function TravelModePicker({ value, onChange, readOnly = false }: TravelModePickerProps) {
+  if (readOnly) {
+    const Icon = TRAVEL_MODE_ICONS[value];
+    return (
+      <div className="inline-flex items-center gap-1.5 text-xs text-ink-light">
+        <Icon className="h-3.5 w-3.5" />
+        <span>{TRAVEL_MODE_LABELS[value]}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="inline-flex items-center rounded-lg border border-border/50 bg-parchment-mid p-0.5"
+      role="radiogroup"
+      aria-label="Travel mode"
+    >
+      {TRAVEL_MODES.map((mode) => {
+        const Icon = TRAVEL_MODE_ICONS[mode];
+        const isActive = mode === value;
+        return (
+          <button
+            key={mode}
+            type="button"
+            role="radio"
+            aria-checked={isActive}
+            onClick={() => {
+              if (!isActive) onChange(mode);
+            }}
+            className={[
+              'flex items-center gap-1 rounded-md px-2 py-1 text-xs font-medium transition-colors cursor-pointer',
+              isActive ? 'bg-forest text-white shadow-sm' : 'text-ink-light hover:text-ink hover:bg-parchment',
+            ].join(' ')}
+            title={TRAVEL_MODE_LABELS[mode]}
+          >
+            <Icon className="h-3.5 w-3.5" />
+            <span className="hidden sm:inline">{TRAVEL_MODE_LABELS[mode]}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,8 +3,20 @@
 import { useEffect, useRef, useState, useMemo, useCallback } from "react";
 import { importLibrary } from "@googlemaps/js-api-loader";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
-import type { Destination } from "@/types/trip";
+import type { Destination, RouteLeg, TravelMode } from "@/types/trip";
 import { darkenHex, distinctRouteColor } from "@/lib/route-colors";
+import { decodePolyline } from "@/lib/polyline";
+import {
+  directionsSegmentKey,
+  type DirectionsSegmentRequest,
+  type DirectionsSegmentResult,
+} from "@/lib/directions";
+import {
+  DEFAULT_TRAVEL_MODE,
+  TRAVEL_MODE_LABELS,
+  splitRouteSegments,
+  type RouteSegment,
+} from "@/lib/travel-modes";
 
 export interface TripMapRoute {
   id: string; // stable id (e.g. dayId)
@@ -12,6 +24,7 @@ export interface TripMapRoute {
   dayIndex?: number;
   destinations: Destination[];
   color?: string;
+  travelMode?: TravelMode;
 }
 
 interface TripMapProps {
@@ -24,8 +37,21 @@ interface TripMapProps {
   onDestinationHover?: (id: string | null) => void;
   onMapClick?: () => void;
   previewLocation?: { lat: number; lng: number } | null;
+  /** Day View: route id reported to `onRouteLegs` (defaults to "active-day"). */
+  routeId?: string;
+  /** Day View: the day's travel mode. */
+  travelMode?: TravelMode;
+  /** Called with per-leg travel times whenever a route's directions load (or with [] when cleared). */
+  onRouteLegs?: (routeId: string, legs: RouteLeg[]) => void;
+  /** Routes come from the trip's cached directions endpoint when set. */
+  tripToken?: string;
+  /** Read-only maps never ask Google for fresh directions; uncached legs are drawn straight. */
+  readOnly?: boolean;
 }
 
+// Segment results for this tab, keyed by `directionsSegmentKey`; null = nothing to draw.
+const directionsCache = new Map<string, DirectionsSegmentResult | null>();
+
 
 export function TripMap({
   destinations = [],
@@ -35,6 +61,11 @@ export function TripMap({
   onDestinationHover,
   onMapClick,
   previewLocation = null,
+  routeId: dayViewRouteId = "active-day",
+  travelMode: dayViewTravelMode = DEFAULT_TRAVEL_MODE,
+  onRouteLegs,
+  tripToken,
+  readOnly = false,
 }: TripMapProps) {
   const mapId = process.env.NEXT_PUBLIC_GOOGLE_MAPS_MAP_ID?.trim() || null;
   const mapRef = useRef<HTMLDivElement>(null);
@@ -51,14 +82,18 @@ export function TripMap({
   const directionsServiceRef = useRef<google.maps.DirectionsService | null>(
     null
   );
-  const directionsRenderersRef = useRef<Map<string, google.maps.DirectionsRenderer>>(
-    new Map()
-  );
+  const routeLinesRef = useRef<Map<string, google.maps.Polyline[]>>(new Map());
+  const routeRequestIdsRef = useRef<Map<string, number>>(new Map());
   const previewMarkerRef = useRef<google.maps.Marker | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState<Error | null>(null);
   const [isMapReady, setIsMapReady] = useState(false);
   const routesKeyRef = useRef<string>("");
+  const onRouteLegsRef = useRef(onRouteLegs);
+
+  useEffect(() => {
+    onRouteLegsRef.current = onRouteLegs;
+  }, [onRouteLegs]);
 
   const hasValidLocation = useCallback(
     (d: Destination) =>
@@ -73,6 +108,7 @@ export function TripMap({
     label?: string;
     color: string;
     activeColor?: string;
+    travelMode: TravelMode;
     destinations: Destination[];
   }> = useMemo(() => {
     if (routes && routes.length > 0) {
@@ -83,33 +119,35 @@ export function TripMap({
           id: r.id,
           label: r.label,
           color: r.color || fallbackColor,
+          travelMode: r.travelMode ?? DEFAULT_TRAVEL_MODE,
           destinations: r.destinations ?? [],
         };
       });
     }
     return [
       {
-        id: "active-day",
+        id: dayViewRouteId,
         label: undefined,
         // Preserve legacy Day View styling:
         // - inactive markers: terracotta
         // - active marker: forest
         color: "#C4704B",
         activeColor: "#2D5A45",
+        travelMode: dayViewTravelMode,
         destinations,
       },
     ];
-  }, [routes, destinations]);
+  }, [routes, destinations, dayViewRouteId, dayViewTravelMode]);
 
   const routesKey = useMemo(() => {
-    // Include route ids + order + coordinates so any route/order change triggers a refresh.
+    // Include route ids + order + coordinates + modes so any route/order change triggers a refresh.
     return normalizedRoutes
       .map((r) => {
         const withLocation = r.destinations.filter(hasValidLocation);
         const coords = withLocation
-          .map((d) => `${d.id}:${d.location!.lat},${d.location!.lng}`)
+          .map((d) => `${d.id}:${d.location!.lat},${d.location!.lng}:${d.travelMode ?? ""}`)
           .join("|");
-        return `${r.id}::${coords}`;
+        return `${r.id}:${r.travelMode}::${coords}`;
       })
       .join("||");
   }, [normalizedRoutes, hasValidLocation]);
@@ -169,7 +207,7 @@ export function TripMap({
         const mapsLibrary = await importLibrary("maps");
         const routesLibrary = await importLibrary("routes");
         const { Map } = mapsLibrary;
-        const { DirectionsService, DirectionsRenderer } = routesLibrary;
+        const { DirectionsService } = routesLibrary;
 
         if (!mapRef.current) return;
 
@@ -219,8 +257,8 @@ export function TripMap({
           else marker.map = null;
         });
         markersRef.current = [];
-        directionsRenderersRef.current.forEach((r) => r.setMap(null));
-        directionsRenderersRef.current.clear();
+        routeLinesRef.current.forEach((list) => list.forEach((r) => r.setMap(null)));
+        routeLinesRef.current.clear();
         if (previewMarkerRef.current) {
           previewMarkerRef.current.setMap(null);
           previewMarkerRef.current = null;
@@ -335,75 +373,140 @@ export function TripMap({
     }
   }, [previewLocation, isMapReady]);
 
-  function ensureDirectionsRenderer(routeId: string, strokeColor: string) {
+  /** One polyline per route segment (see `splitRouteSegments`); extra ones are removed. */
+  function ensureRouteLines(routeId: string, segments: RouteSegment[], strokeColor: string) {
     if (!mapInstanceRef.current) return null;
-    const existing = directionsRenderersRef.current.get(routeId);
-    if (existing) {
-      existing.setOptions({
-        polylineOptions: {
-          strokeColor,
-          strokeWeight: 4,
-          strokeOpacity: 0.8,
-        },
-      });
-      return existing;
-    }
-    const renderer = new google.maps.DirectionsRenderer({
-      map: mapInstanceRef.current,
-      suppressMarkers: true,
-      preserveViewport: true,
-      polylineOptions: {
-        strokeColor,
-        strokeWeight: 4,
-        strokeOpacity: 0.8,
-      },
+    const existing = routeLinesRef.current.get(routeId) ?? [];
+    existing.slice(segments.length).forEach((line) => line.setMap(null));
+
+    const lines = segments.map((segment, i) => {
+      const options = getPolylineOptions(segment.mode, strokeColor);
+      const line = existing[i];
+      if (line) {
+        line.setOptions(options);
+        return line;
+      }
+      return new google.maps.Polyline({ ...options, map: mapInstanceRef.current });
     });
-    directionsRenderersRef.current.set(routeId, renderer);
-    return renderer;
+    routeLinesRef.current.set(routeId, lines);
+    return lines;
   }
 
-  function removeDirectionsRenderer(routeId: string) {
-    const existing = directionsRenderersRef.current.get(routeId);
+  function removeRouteLines(routeId: string) {
+    routeRequestIdsRef.current.delete(routeId);
+    const existing = routeLinesRef.current.get(routeId);
     if (!existing) return;
-    existing.setMap(null);
-    directionsRenderersRef.current.delete(routeId);
+    existing.forEach((line) => line.setMap(null));
+    routeLinesRef.current.delete(routeId);
+    onRouteLegsRef.current?.(routeId, []);
   }
 
-  function requestDirections(routeId: string, dests: Destination[], strokeColor: string) {
-    if (!directionsServiceRef.current) return;
-    const renderer = ensureDirectionsRenderer(routeId, strokeColor);
-    if (!renderer) return;
-
-    const waypoints = dests.slice(1, -1).map((d) => ({
-      location: new google.maps.LatLng(d.location!.lat, d.location!.lng),
-      stopover: true,
-    }));
-
-    const origin = new google.maps.LatLng(
-      dests[0].location!.lat,
-      dests[0].location!.lng
-    );
-    const destination = new google.maps.LatLng(
-      dests[dests.length - 1].location!.lat,
-      dests[dests.length - 1].location!.lng
-    );
+  /** Browser Directions fallback for editors when the server can't route (e.g. no server key). */
+  async function routeInBrowser(
+    segment: DirectionsSegmentRequest
+  ): Promise<DirectionsSegmentResult | null> {
+    const service = directionsServiceRef.current;
+    if (!service) return null;
+    const { points } = segment;
+    try {
+      const result = await service.route({
+        origin: points[0]!,
+        destination: points[points.length - 1]!,
+        waypoints:
+          points.length > 2
+            ? points.slice(1, -1).map((location) => ({ location, stopover: true }))
+            : undefined,
+        travelMode: GOOGLE_TRAVEL_MODES[segment.mode],
+      });
+      const route = result.routes[0];
+      if (!route) return null;
+      return {
+        polyline: route.overview_polyline,
+        legs: route.legs.map((leg) => ({
+          durationSeconds: leg.duration?.value ?? 0,
+          distanceMeters: leg.distance?.value ?? 0,
+        })),
+      };
+    } catch {
+      return null;
+    }
+  }
 
-    directionsServiceRef.current.route(
-      {
-        origin,
-        destination,
-        waypoints: waypoints.length > 0 ? waypoints : undefined,
-        travelMode: google.maps.TravelMode.DRIVING,
-      },
-      (result, status) => {
-        if (
-          status === google.maps.DirectionsStatus.OK &&
-          renderer
-        ) {
-          renderer.setDirections(result);
+  async function loadDirections(
+    requests: DirectionsSegmentRequest[]
+  ): Promise<Array<DirectionsSegmentResult | null>> {
+    const keys = requests.map(directionsSegmentKey);
+    const missing = requests.filter((_, i) => !directionsCache.has(keys[i]!));
+
+    if (missing.length > 0) {
+      let fetched: Array<DirectionsSegmentResult | null> | null = null;
+      if (tripToken) {
+        try {
+          const res = await fetch(`/api/trips/${tripToken}/directions`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ segments: missing }),
+          });
+          if (res.ok) {
+            fetched = ((await res.json()) as { segments: Array<DirectionsSegmentResult | null> })
+              .segments;
+          }
+        } catch (error) {
+          console.error("Error loading directions:", error);
         }
       }
+      if (!fetched && !readOnly) {
+        fetched = await Promise.all(missing.map(routeInBrowser));
+      }
+      missing.forEach((segment, i) => {
+        const result = fetched?.[i] ?? null;
+        // Viewers keep their misses (nothing will change until an editor routes it);
+        // editors retry failures on the next render.
+        if (result || (readOnly && fetched)) {
+          directionsCache.set(directionsSegmentKey(segment), result);
+        }
+      });
+    }
+
+    return keys.map((key) => directionsCache.get(key) ?? null);
+  }
+
+  async function requestDirections(
+    routeId: string,
+    dests: Destination[],
+    strokeColor: string,
+    travelMode: TravelMode
+  ) {
+    const segments = splitRouteSegments(dests, travelMode);
+    const lines = ensureRouteLines(routeId, segments, strokeColor);
+    if (!lines) return;
+
+    const requestId = (routeRequestIdsRef.current.get(routeId) ?? 0) + 1;
+    routeRequestIdsRef.current.set(routeId, requestId);
+
+    const results = await loadDirections(
+      segments.map((segment) => ({
+        mode: segment.mode,
+        points: segment.stops.map((d) => ({ lat: d.location!.lat, lng: d.location!.lng })),
+      }))
     );
+    // A newer request for this route superseded this one.
+    if (routeRequestIdsRef.current.get(routeId) !== requestId) return;
+
+    const legs: RouteLeg[] = [];
+    segments.forEach((segment, i) => {
+      const result = results[i];
+      const { stops } = segment;
+      lines[i]?.setPath(result ? decodePolyline(result.polyline) : stops.map((d) => d.location!));
+      result?.legs.forEach((leg, legIndex) => {
+        legs.push({
+          fromDestinationId: stops[legIndex]!.id,
+          toDestinationId: stops[legIndex + 1]!.id,
+          ...leg,
+        });
+      });
+    });
+    onRouteLegsRef.current?.(routeId, legs);
   }
 
   useEffect(() => {
@@ -426,8 +529,8 @@ export function TripMap({
           else marker.map = null;
         });
         markersRef.current = [];
-        directionsRenderersRef.current.forEach((r) => r.setMap(null));
-        directionsRenderersRef.current.clear();
+        routeLinesRef.current.forEach((list) => list.forEach((r) => r.setMap(null)));
+        routeLinesRef.current.clear();
         return;
       }
 
@@ -440,9 +543,9 @@ export function TripMap({
         for (const r of normalizedRoutes) {
           const withLoc = r.destinations.filter(hasValidLocation);
           if (withLoc.length >= 2) {
-            requestDirections(r.id, withLoc, r.color);
+            requestDirections(r.id, withLoc, r.color, r.travelMode);
           } else {
-            removeDirectionsRenderer(r.id);
+            removeRouteLines(r.id);
           }
         }
         return;
@@ -456,12 +559,12 @@ export function TripMap({
       });
       markersRef.current = [];
 
-      // Remove renderers for routes that no longer exist.
+      // Remove lines for routes that no longer exist.
       const routeIds = new Set(normalizedRoutes.map((r) => r.id));
-      directionsRenderersRef.current.forEach((renderer, routeId) => {
+      routeLinesRef.current.forEach((lines, routeId) => {
         if (!routeIds.has(routeId)) {
-          renderer.setMap(null);
-          directionsRenderersRef.current.delete(routeId);
+          lines.forEach((line) => line.setMap(null));
+          routeLinesRef.current.delete(routeId);
         }
       });
 
@@ -552,9 +655,9 @@ export function TripMap({
       for (const r of normalizedRoutes) {
         const withLoc = r.destinations.filter(hasValidLocation);
         if (withLoc.length >= 2) {
-          requestDirections(r.id, withLoc, r.color);
+          requestDirections(r.id, withLoc, r.color, r.travelMode);
         } else {
-          removeDirectionsRenderer(r.id);
+          removeRouteLines(r.id);
         }
       }
     };
@@ -624,6 +727,11 @@ export function TripMap({
                 <span className="min-w-0 truncate">
                   {r.label || `Day ${idx + 1}`}
                 </span>
+                {r.travelMode !== DEFAULT_TRAVEL_MODE && (
+                  <span className="shrink-0 text-ink-light">
+                    {TRAVEL_MODE_LABELS[r.travelMode]}
+                  </span>
+                )}
               </div>
             ))}
           </div>
@@ -649,6 +757,49 @@ export function TripMap({
   );
 }
 
+// `google.maps` isn't loaded when this module evaluates; these are the enum's string values.
+const GOOGLE_TRAVEL_MODES: Record<TravelMode, google.maps.TravelMode> = {
+  driving: "DRIVING" as google.maps.TravelMode,
+  walking: "WALKING" as google.maps.TravelMode,
+  transit: "TRANSIT" as google.maps.TravelMode,
+  bicycling: "BICYCLING" as google.maps.TravelMode,
+};
+
+/**
+ * Line style per mode so mixed-mode days read at a glance: solid for driving, dots for
+ * walking, short dashes for cycling and long heavier dashes for transit.
+ */
+function getPolylineOptions(mode: TravelMode, strokeColor: string): google.maps.PolylineOptions {
+  const dashed = (
+    path: string | google.maps.SymbolPath,
+    repeat: string,
+    scale: number
+  ): google.maps.PolylineOptions => ({
+    strokeColor,
+    strokeOpacity: 0,
+    strokeWeight: 4,
+    icons: [
+      {
+        icon: { path, strokeColor, strokeOpacity: 0.9, fillColor: strokeColor, fillOpacity: 0.9, scale },
+        offset: "0",
+        repeat,
+      },
+    ],
+  });
+
+  switch (mode) {
+    case "walking":
+      return dashed(google.maps.SymbolPath.CIRCLE, "10px", 2);
+    case "bicycling":
+      return dashed("M 0,-1 0,1", "12px", 3);
+    case "transit":
+      return dashed("M 0,-1.5 0,1.5", "20px", 4);
+    case "driving":
+      // Reused polylines keep their old icons unless they're cleared.
+      return { strokeColor, strokeWeight: 4, strokeOpacity: 0.8, icons: [] };
+  }
+}
+
 function createCustomMarkerContent(
   number: number,
   baseColor: string,
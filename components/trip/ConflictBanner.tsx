@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+
+interface ConflictBannerProps {
+  onKeepServer: () => void;
+  onOverwrite: () => Promise<void>;
+}
+
+export function ConflictBanner({ onKeepServer, onOverwrite }: ConflictBannerProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  return (
+    <div
+      className="flex flex-col gap-3 rounded-xl border border-yellow-300 bg-yellow-50 px-4 py-3 text-sm text-ink sm:flex-row sm:items-center"
+      role="alert"
+    >
+      <div className="flex flex-1 items-start gap-2 min-w-0">
+        <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5 text-yellow-700" />
+        <p className="min-w-0">
+          Someone else changed this trip while you were editing. You&apos;re now seeing their
+          latest version; your last change was not saved.
+        </p>
+      </div>
+      <div className="flex gap-2 shrink-0">
+        <Button variant="ghost" size="sm" onClick={onKeepServer} disabled={isSaving}>
+          Keep theirs
+        </Button>
+        <Button
+          size="sm"
+          disabled={isSaving}
+          onClick={async () => {
+            setIsSaving(true);
+            try {
+              await onOverwrite();
+            } catch {
+              // useTrip has already reported the error.
+            } finally {
+              setIsSaving(false);
+            }
+          }}
+        >
+          {isSaving ? 'Saving…' : 'Overwrite with mine'}
+        </Button>
+      </div>
+    </div>
+  );
+}
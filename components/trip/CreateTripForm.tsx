@@ -1,7 +1,8 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { Upload } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
@@ -11,6 +12,35 @@ export function CreateTripForm() {
   const [tripName, setTripName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleImportFile = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/trips/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: await file.text(),
+      });
+
+      const data = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        tokens?: { editToken: string };
+      };
+      if (!response.ok || !data.tokens) {
+        throw new Error(data.error || 'Failed to import trip');
+      }
+      router.push(`/trip/${data.tokens.editToken}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      setIsImporting(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -55,7 +85,7 @@ export function CreateTripForm() {
           placeholder="Enter trip name (e.g., Oahu 2026)"
           value={tripName}
           onChange={(e) => setTripName(e.target.value)}
-          disabled={isLoading}
+          disabled={isLoading || isImporting}
           autoFocus
           className="text-lg h-14"
         />
@@ -68,7 +98,7 @@ export function CreateTripForm() {
       
       <Button
         type="submit"
-        disabled={isLoading || !tripName.trim()}
+        disabled={isLoading || isImporting || !tripName.trim()}
         className="w-full h-14 text-lg font-semibold"
         size="lg"
       >
@@ -81,6 +111,37 @@ export function CreateTripForm() {
           'Create Trip'
         )}
       </Button>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) handleImportFile(file);
+        }}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        disabled={isLoading || isImporting}
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full"
+      >
+        {isImporting ? (
+          <>
+            <LoadingSpinner size="sm" className="mr-2" />
+            Importing...
+          </>
+        ) : (
+          <>
+            <Upload className="h-4 w-4 mr-2" />
+            Import trip from file
+          </>
+        )}
+      </Button>
     </form>
   );
 }
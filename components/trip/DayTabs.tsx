@@ -2,7 +2,8 @@
 
 import { LayoutList, Plus } from 'lucide-react';
 import { IconButton } from '@/components/ui/IconButton';
-import type { Day } from '@/types/trip';
+import type { Day, TripPresence } from '@/types/trip';
+import { formatIsoDate, getDayDate } from '@/lib/trip-dates';
 import {
   DndContext,
   closestCenter,
@@ -30,19 +31,52 @@ interface DayTabsProps {
   onAddDay: () => void;
   onReorderDay?: (dayId: string, direction: 'left' | 'right') => void; // Keeping for compatibility, but unused
   onReorderDays?: (days: Day[]) => void;
+  /** Trip start date; each tab shows its day's date when set. */
+  startDate?: string;
+  /** Other open tabs; shown as a count on the day (or Trip chip) each one has open. */
+  presence?: TripPresence[];
   readOnly?: boolean;
 }
 
+function PresenceBadge({ entries, active }: { entries: TripPresence[]; active: boolean }) {
+  if (entries.length === 0) return null;
+  const editors = entries.filter((p) => p.role === 'edit').length;
+  const viewers = entries.length - editors;
+  const title = [
+    editors > 0 ? `${editors} ${editors === 1 ? 'editor' : 'editors'}` : null,
+    viewers > 0 ? `${viewers} ${viewers === 1 ? 'viewer' : 'viewers'}` : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <span
+      className={[
+        'inline-flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] font-semibold leading-none',
+        active ? 'bg-white text-forest' : editors > 0 ? 'bg-terracotta text-white' : 'bg-ink-light/70 text-white',
+      ].join(' ')}
+      title={`${title} here now`}
+      aria-label={`${title} here now`}
+    >
+      {entries.length}
+    </span>
+  );
+}
+
 // Sortable Day Tab Component
 function SortableDayTab({
   day,
+  date,
   activeDayId,
   onDaySelect,
+  presence,
   readOnly,
 }: {
   day: Day;
+  date: string | null;
   activeDayId: string;
   onDaySelect: (dayId: string) => void;
+  presence: TripPresence[];
   readOnly: boolean;
 }) {
   const {
@@ -94,6 +128,12 @@ function SortableDayTab({
         }}
       >
         <span>{day.label}</span>
+        {date && (
+          <span className={['text-xs font-normal', isActive ? 'text-white/80' : 'text-ink-light'].join(' ')}>
+            {formatIsoDate(date)}
+          </span>
+        )}
+        <PresenceBadge entries={presence} active={isActive} />
       </div>
     </div>
   );
@@ -107,6 +147,8 @@ export function DayTabs({
   tripViewActive = false,
   onAddDay,
   onReorderDays,
+  startDate,
+  presence = [],
   readOnly = false,
 }: DayTabsProps) {
   const sensors = useSensors(
@@ -155,6 +197,10 @@ export function DayTabs({
           >
             <LayoutList className="h-4 w-4 shrink-0" />
             <span>Trip</span>
+            <PresenceBadge
+              entries={presence.filter((p) => p.dayId == null)}
+              active={tripViewActive}
+            />
           </div>
         </div>
       )}
@@ -168,12 +214,14 @@ export function DayTabs({
           items={days.map(d => d.id)} 
           strategy={rectSortingStrategy}
         >
-          {days.map((day) => (
+          {days.map((day, index) => (
             <SortableDayTab
               key={day.id}
               day={day}
+              date={getDayDate({ startDate }, index)}
               activeDayId={activeDayId}
               onDaySelect={onDaySelect}
+              presence={presence.filter((p) => p.dayId === day.id)}
               readOnly={readOnly}
             />
           ))}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useDistanceUnit } from '@/hooks/useDistanceUnit';
+import { DISTANCE_UNITS } from '@/lib/distance-units';
+
+export function DistanceUnitToggle() {
+  const [unit, setUnit] = useDistanceUnit();
+
+  return (
+    <div
+      className="inline-flex items-center rounded-md border border-border/50 bg-parchment-mid p-0.5"
+      role="radiogroup"
+      aria-label="Distance unit"
+    >
+      {DISTANCE_UNITS.map((option) => {
+        const isActive = option === unit;
+        return (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={isActive}
+            onClick={() => setUnit(option)}
+            className={[
+              'rounded px-1.5 py-0.5 text-[11px] font-medium transition-colors cursor-pointer',
+              isActive ? 'bg-forest text-white' : 'text-ink-light hover:text-ink',
+            ].join(' ')}
+          >
+            {option}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, MapPin, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { IconButton } from '@/components/ui/IconButton';
+import type { GeoImportResult, ImportedDay } from '@/lib/geo-import';
+
+const FORMAT_LABELS: Record<GeoImportResult['format'], string> = {
+  gpx: 'GPX',
+  kml: 'KML',
+  geojson: 'GeoJSON',
+};
+
+export function GeoImportModal({
+  fileName,
+  result,
+  error,
+  isImporting,
+  onClose,
+  onImport,
+}: {
+  fileName: string;
+  result: GeoImportResult | null;
+  error: string | null;
+  isImporting: boolean;
+  onClose: () => void;
+  onImport: (days: ImportedDay[]) => void;
+}) {
+  // Indices into `result.days`; everything starts selected.
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(result?.days.map((_, i) => i) ?? [])
+  );
+
+  useEffect(() => {
+    const prev = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.body.style.overflow = prev;
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const days = result?.days ?? [];
+  const chosen = days.filter((_, i) => selected.has(i));
+  const stopCount = chosen.reduce((sum, d) => sum + d.destinations.length, 0);
+
+  const toggle = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div
+        className="absolute inset-0 bg-ink/30 backdrop-blur-sm"
+        onMouseDown={(e) => {
+          if (e.target !== e.currentTarget) return;
+          onClose();
+        }}
+      />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Import places"
+        className="absolute inset-x-0 bottom-4 sm:top-10 sm:bottom-auto mx-auto w-[min(520px,calc(100vw-2rem))] rounded-2xl border border-border bg-parchment-mid card-elevated-lg overflow-hidden"
+      >
+        <div className="flex items-center justify-between gap-2 border-b border-border/60 bg-parchment-mid px-3 sm:px-4 py-3">
+          <div className="min-w-0">
+            <div className="text-sm font-semibold text-ink">Import places</div>
+            <div className="truncate text-xs text-ink-light">
+              {result ? `${FORMAT_LABELS[result.format]} · ${fileName}` : fileName}
+            </div>
+          </div>
+          <IconButton variant="ghost" size="sm" className="h-10 w-10" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </IconButton>
+        </div>
+
+        {error ? (
+          <p className="px-4 py-6 text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        ) : (
+          <>
+            {result && result.warnings.length > 0 && (
+              <ul className="space-y-0.5 px-4 pt-3 text-xs text-yellow-800">
+                {result.warnings.map((w) => (
+                  <li key={w} className="flex items-start gap-1">
+                    <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                    {w}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="max-h-[55vh] overflow-auto p-2 space-y-1">
+              {days.map((day, index) => (
+                <label
+                  key={index}
+                  className="flex items-start gap-3 rounded-xl px-3 py-2 hover:bg-parchment cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => toggle(index)}
+                    className="mt-1 accent-forest"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-baseline justify-between gap-2">
+                      <span className="truncate text-sm font-semibold text-ink">{day.label}</span>
+                      <span className="shrink-0 text-xs text-ink-light">
+                        {day.destinations.length} {day.destinations.length === 1 ? 'place' : 'places'}
+                      </span>
+                    </div>
+                    <ul className="mt-1 space-y-0.5">
+                      {day.destinations.slice(0, 5).map((d, i) => (
+                        <li key={i} className="flex items-center gap-1.5 text-xs text-ink-light">
+                          <MapPin className="h-3 w-3 shrink-0" />
+                          <span className="truncate">{d.name}</span>
+                        </li>
+                      ))}
+                      {day.destinations.length > 5 && (
+                        <li className="pl-[18px] text-xs text-ink-light">
+                          +{day.destinations.length - 5} more
+                        </li>
+                      )}
+                    </ul>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center justify-end gap-2 border-t border-border/60 px-3 sm:px-4 py-3">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          {!error && (
+            <Button size="sm" onClick={() => onImport(chosen)} disabled={chosen.length === 0 || isImporting}>
+              {isImporting
+                ? 'Importing…'
+                : `Add ${chosen.length} ${chosen.length === 1 ? 'day' : 'days'} (${stopCount} ${stopCount === 1 ? 'place' : 'places'})`}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
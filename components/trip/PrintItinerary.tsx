@@ -0,0 +1,138 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { DistanceUnitToggle } from '@/components/trip/DistanceUnitToggle';
+import { TRAVEL_MODE_ICONS } from '@/components/itinerary/TravelModePicker';
+import { renderTextWithLinks } from '@/components/itinerary/TextWithLinks';
+import { useDistanceUnit } from '@/hooks/useDistanceUnit';
+import { formatMinutes } from '@/lib/day-timeline';
+import { hasValidLocation } from '@/lib/discover';
+import { formatDistance, sumLegs } from '@/lib/distance-units';
+import { formatIsoDate, formatTripDateRange, getDayDate } from '@/lib/trip-dates';
+import { DEFAULT_TRAVEL_MODE, getLegTravelMode } from '@/lib/travel-modes';
+import type { Day, RouteLeg, Trip } from '@/types/trip';
+
+export interface PrintDay {
+  day: Day;
+  /** Cached directions legs; missing legs are simply not shown. */
+  legs: RouteLeg[];
+  mapUrl: string | null;
+}
+
+interface PrintItineraryProps {
+  trip: Trip;
+  tripToken: string;
+  days: PrintDay[];
+}
+
+export function PrintItinerary({ trip, tripToken, days }: PrintItineraryProps) {
+  const [unit] = useDistanceUnit();
+  const dateRange = formatTripDateRange(trip);
+
+  return (
+    <div className="min-h-screen bg-parchment print:bg-white">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 py-6 print:max-w-none print:p-0">
+        <div className="mb-6 flex items-center justify-between gap-3 print:hidden">
+          <Link
+            href={`/trip/${tripToken}`}
+            className="inline-flex items-center gap-1.5 text-sm text-forest hover:underline"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to trip
+          </Link>
+          <div className="flex items-center gap-2">
+            <DistanceUnitToggle />
+            <Button size="sm" onClick={() => window.print()}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+          </div>
+        </div>
+
+        <header className="mb-6">
+          <h1 className="font-display text-4xl text-ink">{trip.name}</h1>
+          {dateRange && <p className="mt-1 text-ink-light">{dateRange}</p>}
+        </header>
+
+        {days.map(({ day, legs, mapUrl }, dayIndex) => {
+          const date = getDayDate(trip, dayIndex);
+          const totals = sumLegs(legs);
+          const dayMode = day.travelMode ?? DEFAULT_TRAVEL_MODE;
+          const legTo = new Map(legs.map((leg) => [leg.toDestinationId, leg]));
+          // Numbered like the map markers: only stops with a location count.
+          const located = day.destinations.filter(hasValidLocation).map((d) => d.id);
+
+          return (
+            <section key={day.id} className={dayIndex > 0 ? 'mt-10 break-before-page print:mt-0' : ''}>
+              <div className="flex flex-wrap items-baseline justify-between gap-x-4 border-b border-border pb-2">
+                <h2 className="font-display text-2xl text-ink">
+                  {day.label}
+                  {date && (
+                    <span className="ml-2 font-body text-base font-normal text-ink-light">
+                      {formatIsoDate(date)}
+                    </span>
+                  )}
+                </h2>
+                {totals.legCount > 0 && (
+                  <span className="text-sm text-ink-light">
+                    {formatMinutes(totals.durationSeconds / 60)} travelling ·{' '}
+                    {formatDistance(totals.distanceMeters, unit)}
+                  </span>
+                )}
+              </div>
+
+              {mapUrl && (
+                // eslint-disable-next-line @next/next/no-img-element -- remote Static Maps image; next/image would need the host allow-listed
+                <img
+                  src={mapUrl}
+                  alt={`Map of ${day.label}`}
+                  className="mt-4 w-full rounded-lg border border-border/60 break-inside-avoid"
+                />
+              )}
+
+              {day.destinations.length === 0 ? (
+                <p className="mt-4 text-sm text-ink-light">No destinations planned.</p>
+              ) : (
+                <ol className="mt-4 space-y-3">
+                  {day.destinations.map((destination) => {
+                    const number = located.indexOf(destination.id) + 1;
+                    const leg = legTo.get(destination.id);
+                    const LegIcon = TRAVEL_MODE_ICONS[getLegTravelMode(destination, dayMode)];
+                    return (
+                      <li key={destination.id} className="break-inside-avoid">
+                        {leg && (
+                          <div className="mb-2 flex items-center gap-1.5 pl-8 text-xs text-ink-light">
+                            <LegIcon className="h-3 w-3 shrink-0" />
+                            {formatMinutes(leg.durationSeconds / 60)} · {formatDistance(leg.distanceMeters, unit)}
+                          </div>
+                        )}
+                        <div className="flex gap-3">
+                          <span className="mt-0.5 flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-forest text-[11px] font-semibold text-white print:border print:border-forest print:bg-white print:text-forest">
+                            {number > 0 ? number : '–'}
+                          </span>
+                          <div className="min-w-0 flex-1">
+                            <div className="font-semibold text-ink">{destination.name}</div>
+                            {destination.address && (
+                              <div className="text-sm text-ink-light">{destination.address}</div>
+                            )}
+                            {destination.notes && (
+                              <div className="mt-1 whitespace-pre-wrap break-words text-sm text-ink">
+                                {renderTextWithLinks(destination.notes)}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, Copy, Eye, Link2, Lock, Pencil, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { IconButton } from '@/components/ui/IconButton';
+import { Input } from '@/components/ui/Input';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import type { TripShareLink } from '@/types/trip';
+
+interface ShareLinksModalProps {
+  open: boolean;
+  tripToken: string;
+  onClose: () => void;
+}
+
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['day', 24 * 60 * 60_000],
+  ['hour', 60 * 60_000],
+  ['minute', 60_000],
+];
+
+function formatLastUsed(iso: string | null) {
+  if (!iso) return 'Never used';
+  const elapsed = Date.now() - Date.parse(iso);
+  // Usage is only recorded every few minutes.
+  if (elapsed < 15 * 60_000) return 'Used just now';
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+  for (const [unit, ms] of RELATIVE_UNITS) {
+    if (elapsed >= ms) return `Used ${format.format(-Math.floor(elapsed / ms), unit)}`;
+  }
+  return 'Used just now';
+}
+
+function formatExpiry(iso: string) {
+  const expiresAt = new Date(iso);
+  if (expiresAt.getTime() <= Date.now()) return 'Expired';
+  return `Expires ${expiresAt.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+}
+
+export function ShareLinksModal({ open, tripToken, onClose }: ShareLinksModalProps) {
+  const [links, setLinks] = useState<TripShareLink[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [role, setRole] = useState<TripShareLink['role']>('view');
+  // `datetime-local` value, in the browser's time zone.
+  const [expiresAt, setExpiresAt] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLinks(null);
+    setError(null);
+
+    fetch(`/api/trips/${tripToken}/links`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to load links');
+        const data = (await response.json()) as { links: TripShareLink[] };
+        if (!cancelled) setLinks(data.links);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load links');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, tripToken]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [open, onClose]);
+
+  const handleCopy = async (token: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/trip/${token}`);
+    setCopiedToken(token);
+    setTimeout(() => setCopiedToken(null), 2000);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim() || isCreating) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/trips/${tripToken}/links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          role,
+          label: label.trim(),
+          // Only view links can be limited; the fields are hidden for edit links.
+          ...(role === 'view' && expiresAt ? { expiresAt: new Date(expiresAt).toISOString() } : {}),
+          ...(role === 'view' && passphrase ? { passphrase } : {}),
+        }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        link?: TripShareLink;
+      };
+      if (!response.ok || !data.link) throw new Error(data.error || 'Failed to create link');
+
+      setLinks((prev) => [...(prev ?? []), data.link!]);
+      setLabel('');
+      setExpiresAt('');
+      setPassphrase('');
+      await handleCopy(data.link.token);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: TripShareLink) => {
+    const ok = confirm(
+      `Revoke the link for “${link.label}”? Anyone using it loses access straight away. Other links keep working.`
+    );
+    if (!ok) return;
+
+    try {
+      const response = await fetch(`/api/trips/${tripToken}/links/${link.token}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) throw new Error('Failed to revoke link');
+      setLinks((prev) => prev?.filter((l) => l.token !== link.token) ?? null);
+    } catch (e) {
+      console.error(e);
+      alert('Could not revoke this link. Please try again.');
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div
+        className="absolute inset-0 bg-ink/30 backdrop-blur-sm"
+        onMouseDown={(e) => {
+          if (e.target !== e.currentTarget) return;
+          onClose();
+        }}
+      />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Share links"
+        className="absolute inset-x-0 bottom-4 sm:top-10 sm:bottom-auto mx-auto w-[min(560px,calc(100vw-2rem))] rounded-2xl border border-border bg-parchment-mid card-elevated-lg overflow-hidden"
+      >
+        <div className="flex items-center justify-between gap-2 border-b border-border/60 bg-parchment-mid px-3 sm:px-4 py-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <Link2 className="h-4 w-4 text-forest" />
+            <div>
+              <div className="text-sm font-semibold text-ink">Share links</div>
+              <div className="text-xs text-ink-light">Give each person their own link to revoke later</div>
+            </div>
+          </div>
+          <IconButton variant="ghost" size="sm" className="h-10 w-10" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </IconButton>
+        </div>
+
+        <div className="max-h-[50vh] overflow-auto p-2">
+          {!links && !error && (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          )}
+          {links?.map((link) => {
+            const RoleIcon = link.role === 'edit' ? Pencil : Eye;
+            const isOwn = link.token === tripToken;
+            return (
+              <div key={link.token} className="flex items-center gap-3 rounded-xl px-3 py-2 hover:bg-parchment">
+                <RoleIcon className="h-4 w-4 shrink-0 text-ink-light" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm text-ink">
+                    <span className="truncate">
+                      {link.label ?? (link.role === 'edit' ? 'Default edit link' : 'Default view link')}
+                    </span>
+                    {link.hasPassphrase && (
+                      <Lock className="h-3 w-3 shrink-0 text-ink-light" aria-label="Passphrase protected" />
+                    )}
+                    {isOwn && <Badge>You</Badge>}
+                  </div>
+                  <div className="truncate text-xs text-ink-light">
+                    {link.role === 'edit' ? 'Can edit' : 'Can view'} · Created{' '}
+                    {new Date(link.createdAt).toLocaleDateString()} · {formatLastUsed(link.lastUsedAt)}
+                    {link.expiresAt && ` · ${formatExpiry(link.expiresAt)}`}
+                  </div>
+                </div>
+                <IconButton
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8"
+                  title="Copy link"
+                  onClick={() => handleCopy(link.token)}
+                >
+                  {copiedToken === link.token ? (
+                    <Check className="h-4 w-4 text-forest" />
+                  ) : (
+                    <Copy className="h-4 w-4" />
+                  )}
+                </IconButton>
+                {!link.isDefault && !isOwn && (
+                  <IconButton
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8"
+                    title="Revoke link"
+                    onClick={() => handleRevoke(link)}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </IconButton>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <form
+          onSubmit={handleCreate}
+          className="flex flex-wrap items-center gap-2 border-t border-border/60 px-3 sm:px-4 py-3"
+        >
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Who is it for? (e.g. Mom)"
+            maxLength={60}
+            className="h-9 flex-1 min-w-[10rem]"
+            aria-label="Link label"
+          />
+          <div className="flex items-center gap-1 text-xs" role="radiogroup" aria-label="Link role">
+            {(['view', 'edit'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={role === option}
+                onClick={() => setRole(option)}
+                className={[
+                  'rounded px-2 py-1 cursor-pointer transition-colors',
+                  role === option ? 'bg-forest text-white' : 'text-ink-light hover:text-ink',
+                ].join(' ')}
+              >
+                {option === 'view' ? 'Can view' : 'Can edit'}
+              </button>
+            ))}
+          </div>
+          <Button type="submit" size="sm" disabled={!label.trim() || isCreating}>
+            {isCreating ? 'Creating…' : 'Create & copy'}
+          </Button>
+          {role === 'view' && (
+            <div className="flex w-full flex-wrap items-center gap-2">
+              <label className="flex items-center gap-2 text-xs text-ink-light">
+                Expires
+                <Input
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  className="h-9 w-auto"
+                />
+              </label>
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase (optional)"
+                autoComplete="new-password"
+                maxLength={200}
+                className="h-9 flex-1 min-w-[10rem]"
+                aria-label="Passphrase"
+              />
+            </div>
+          )}
+          {error && (
+            <p className="w-full text-xs text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -3,22 +3,43 @@
 import { useEffect, useMemo, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react';
 import { useRouter } from 'next/navigation';
 import {
+  CalendarDays,
   Check,
   Copy,
+  Download,
   Eye,
+  History,
   Home,
+  Link2,
   MoreVertical,
   Pencil,
+  Printer,
+  RefreshCw,
   Search,
   Trash2,
+  Upload,
   X,
 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { IconButton } from '@/components/ui/IconButton';
 import { Badge } from '@/components/ui/Badge';
 import { Input } from '@/components/ui/Input';
+import { VersionHistoryModal } from '@/components/trip/VersionHistoryModal';
+import { ShareLinksModal } from '@/components/trip/ShareLinksModal';
+import { GEO_IMPORT_EXTENSIONS } from '@/lib/geo-import';
 import type { Trip } from '@/types/trip';
+import { buildTripMarkdown } from '@/lib/markdown';
 import { clearRecentTrips, getRecentTrips, removeRecentTrip, type RecentTrip } from '@/lib/recents';
+import { formatIsoDate, formatTripDateRange, getDayDate } from '@/lib/trip-dates';
+
+const EXPORT_FORMATS: Array<{ file: string; label: string; hint: string; wholeTripOnly?: boolean }> = [
+  { file: 'export.json', label: 'Trip backup', hint: 'Re-import later', wholeTripOnly: true },
+  { file: 'export.gpx', label: 'GPX', hint: 'GPS apps' },
+  { file: 'export.kml', label: 'KML', hint: 'Google My Maps' },
+  { file: 'export.kmz', label: 'KMZ', hint: 'Google Earth' },
+  { file: 'calendar.ics', label: 'Calendar (ICS)', hint: 'Needs a start date' },
+  { file: 'export.md', label: 'Markdown', hint: 'Docs and notes' },
+];
 
 interface TripHeaderProps {
   trip: Trip;
@@ -28,9 +49,17 @@ interface TripHeaderProps {
     viewToken?: string;
     editToken?: string;
   };
-  onUpdate: (trip: Trip) => void;
+  onRename: (name: string) => void;
+  onChangeStartDate: (startDate: string | null) => void;
+  onRestored: (trip: Trip) => void;
   onDelete: () => void;
   onOpenSearch?: () => void;
+  /** Editors only: called with the trip's tokens after a link is reset. */
+  onTokensRotated?: (tokens: { viewToken: string; editToken: string }) => void;
+  /** Editors only: a picked GPX/KML/GeoJSON file, previewed before import. */
+  onImportFile?: (file: File) => void;
+  /** Day View's day; offers single-day exports when set. */
+  activeDayIndex?: number;
 }
 
 export function TripHeader({
@@ -38,22 +67,34 @@ export function TripHeader({
   accessRole,
   tripToken,
   tokens,
-  onUpdate,
+  onRename,
+  onChangeStartDate,
+  onRestored,
   onDelete,
   onOpenSearch,
+  onImportFile,
+  onTokensRotated,
+  activeDayIndex,
 }: TripHeaderProps) {
   const router = useRouter();
   const [isEditing, setIsEditing] = useState(false);
   const [tripName, setTripName] = useState(trip.name);
-  const [copiedKey, setCopiedKey] = useState<'view' | 'edit' | null>(null);
+  const [copiedKey, setCopiedKey] = useState<'view' | 'edit' | 'calendar' | 'markdown' | null>(null);
   const [showMenu, setShowMenu] = useState(false);
   const [showShare, setShowShare] = useState(false);
   const [isCloning, setIsCloning] = useState(false);
+  const [rotatingRole, setRotatingRole] = useState<'view' | 'edit' | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showLinks, setShowLinks] = useState(false);
+  const [exportScope, setExportScope] = useState<'trip' | 'day'>('trip');
   const [recentTrips, setRecentTrips] = useState<RecentTrip[]>(() => getRecentTrips());
   const shareMenuRef = useRef<HTMLDivElement | null>(null);
   const menuRef = useRef<HTMLDivElement | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
 
   const isReadOnly = accessRole !== 'edit';
+  const dateRange = formatTripDateRange(trip);
+  const endDate = getDayDate(trip, trip.days.length - 1);
   const viewToken = tokens?.viewToken;
   const editToken = tokens?.editToken || tripToken;
 
@@ -75,20 +116,54 @@ export function TripHeader({
   const handleSave = () => {
     if (isReadOnly) return;
     if (tripName.trim()) {
-      onUpdate({ ...trip, name: tripName.trim() });
+      onRename(tripName.trim());
       setIsEditing(false);
     }
   };
 
-  const handleCopy = async (kind: 'view' | 'edit') => {
-    const token = kind === 'view' ? viewToken : editToken;
+  const handleCopy = async (kind: 'view' | 'edit' | 'calendar') => {
+    const token = kind === 'edit' ? editToken : viewToken;
     if (!token) return;
-    const url = `${window.location.origin}/trip/${token}`;
+    const url =
+      kind === 'calendar'
+        ? `${window.location.origin}/api/trips/${token}/calendar.ics`
+        : `${window.location.origin}/trip/${token}`;
     await navigator.clipboard.writeText(url);
     setCopiedKey(kind);
     setTimeout(() => setCopiedKey(null), 2000);
   };
 
+  const handleRotate = async (role: 'view' | 'edit') => {
+    if (isReadOnly || rotatingRole) return;
+    const message =
+      role === 'view'
+        ? 'Reset the view-only link?\n\nEveryone who has the current view-only link or calendar feed will lose access. Editors and named links are not affected. Share the new link with anyone who should still see the trip.'
+        : 'Reset the editable link?\n\nEveryone who has the default editable link will lose access, including your other tabs and devices. Named links keep working. If you are on the default link, this page will switch to the new one; share it with anyone who should still edit.';
+    if (!confirm(message)) return;
+
+    setRotatingRole(role);
+    try {
+      const response = await fetch(`/api/trips/${tripToken}/tokens`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        tokens?: { viewToken: string; editToken: string };
+      };
+      if (!response.ok || !data.tokens) throw new Error(data.error || 'Failed to reset link');
+
+      setShowShare(false);
+      onTokensRotated?.(data.tokens);
+    } catch (e) {
+      console.error(e);
+      alert('Could not reset this link. Please try again.');
+    } finally {
+      setRotatingRole(null);
+    }
+  };
+
   const handleDelete = () => {
     if (isReadOnly) return;
     if (confirm('Are you sure you want to delete this trip? This action cannot be undone.')) {
@@ -102,6 +177,23 @@ export function TripHeader({
     await navigator.clipboard.writeText(url);
   };
 
+  const activeDay = activeDayIndex != null ? trip.days[activeDayIndex] : undefined;
+
+  /** Downloads via the export endpoint; its attachment header keeps this page open. */
+  const handleExport = (format: (typeof EXPORT_FORMATS)[number]) => {
+    setShowMenu(false);
+    const query =
+      activeDay && exportScope === 'day' && !format.wholeTripOnly ? `?day=${activeDayIndex}` : '';
+    window.location.assign(`/api/trips/${tripToken}/${format.file}${query}`);
+  };
+
+  const handleCopyMarkdown = async () => {
+    const days = activeDay && exportScope === 'day' ? [activeDay] : trip.days;
+    await navigator.clipboard.writeText(buildTripMarkdown(trip, days));
+    setCopiedKey('markdown');
+    setTimeout(() => setCopiedKey(null), 2000);
+  };
+
   const handleCloneTrip = async () => {
     if (isCloning) return;
     setIsCloning(true);
@@ -223,6 +315,45 @@ export function TripHeader({
             {isReadOnly && <Badge variant="warning">Read-only</Badge>}
           </div>
         )}
+
+        {isReadOnly ? (
+          dateRange && (
+            <div className="flex items-center gap-1.5 px-2 text-xs sm:text-sm text-ink-light">
+              <CalendarDays className="h-3.5 w-3.5 shrink-0" />
+              <span className="truncate">{dateRange}</span>
+            </div>
+          )
+        ) : (
+          <div className="flex items-center gap-1.5 px-2 text-xs sm:text-sm text-ink-light min-w-0">
+            <CalendarDays className="h-3.5 w-3.5 shrink-0" />
+            <input
+              type="date"
+              value={trip.startDate ?? ''}
+              onChange={(e) => onChangeStartDate(e.target.value || null)}
+              className="bg-transparent rounded-md px-1 py-0.5 text-ink-light hover:text-ink focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-forest/40 cursor-pointer"
+              aria-label="Trip start date"
+              title="Trip start date"
+            />
+            {trip.startDate ? (
+              <>
+                {endDate && trip.days.length > 1 && (
+                  <span className="truncate">to {formatIsoDate(endDate, { year: true })}</span>
+                )}
+                <button
+                  type="button"
+                  className="p-0.5 rounded hover:bg-parchment-mid hover:text-ink cursor-pointer"
+                  onClick={() => onChangeStartDate(null)}
+                  title="Clear dates"
+                  aria-label="Clear trip dates"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </>
+            ) : (
+              <span className="truncate">Add a start date to see each day&apos;s date</span>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-2 shrink-0">
@@ -310,6 +441,25 @@ export function TripHeader({
                   </div>
                 </button>
 
+                <button
+                  onClick={() => handleCopy('calendar')}
+                  disabled={!viewToken}
+                  className="flex w-full items-center gap-3 px-4 py-3 text-left text-sm hover:bg-parchment transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                  role="menuitem"
+                >
+                  {copiedKey === 'calendar' ? (
+                    <Check className="h-4 w-4 text-forest" />
+                  ) : (
+                    <CalendarDays className="h-4 w-4 text-ink-light" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-ink">Copy calendar feed</div>
+                    <div className="text-xs text-ink-light truncate">
+                      {viewToken ? 'Subscribe to follow changes' : 'Unavailable'}
+                    </div>
+                  </div>
+                </button>
+
                 {!isReadOnly && (
                   <button
                     onClick={() => handleCopy('edit')}
@@ -329,6 +479,51 @@ export function TripHeader({
                     </div>
                   </button>
                 )}
+
+                {!isReadOnly && (
+                  <button
+                    onClick={() => {
+                      setShowShare(false);
+                      setShowLinks(true);
+                    }}
+                    className="flex w-full items-center gap-3 px-4 py-3 text-left text-sm hover:bg-parchment transition-colors cursor-pointer"
+                    role="menuitem"
+                  >
+                    <Link2 className="h-4 w-4 text-ink-light" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-ink">Manage links…</div>
+                      <div className="text-xs text-ink-light truncate">
+                        A link per person, revocable any time
+                      </div>
+                    </div>
+                  </button>
+                )}
+
+                {!isReadOnly && onTokensRotated && (
+                  <>
+                    <div className="h-px bg-border/60" />
+                    <div className="px-4 pt-3 pb-1 text-xs font-semibold text-ink-light uppercase tracking-wide">
+                      Reset links
+                    </div>
+                    {(['view', 'edit'] as const).map((role) => (
+                      <button
+                        key={role}
+                        onClick={() => handleRotate(role)}
+                        disabled={rotatingRole != null}
+                        className="flex w-full items-center gap-3 px-4 py-2 text-left text-sm text-ink hover:bg-parchment transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                        role="menuitem"
+                      >
+                        <RefreshCw
+                          className={`h-4 w-4 text-ink-light ${rotatingRole === role ? 'animate-spin' : ''}`}
+                        />
+                        {role === 'view' ? 'New default view link' : 'New default edit link'}
+                      </button>
+                    ))}
+                    <p className="px-4 pb-3 text-xs text-ink-light">
+                      The old link stops working for everyone who has it.
+                    </p>
+                  </>
+                )}
               </div>
             </>
           )}
@@ -442,6 +637,83 @@ export function TripHeader({
                   </div>
                 )}
 
+                <div className="h-px bg-border/60" />
+                <div className="flex items-center justify-between gap-2 px-4 pt-3 pb-1">
+                  <span className="text-xs font-semibold text-ink-light uppercase tracking-wide">Export</span>
+                  {activeDay && (
+                    <div className="flex items-center gap-1 text-xs" role="radiogroup" aria-label="Export scope">
+                      {(['trip', 'day'] as const).map((scope) => (
+                        <button
+                          key={scope}
+                          type="button"
+                          role="radio"
+                          aria-checked={exportScope === scope}
+                          onClick={() => setExportScope(scope)}
+                          className={[
+                            'rounded px-1.5 py-0.5 cursor-pointer transition-colors',
+                            exportScope === scope ? 'bg-forest text-white' : 'text-ink-light hover:text-ink',
+                          ].join(' ')}
+                        >
+                          {scope === 'trip' ? 'Whole trip' : 'This day'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {EXPORT_FORMATS.map((format) => (
+                  <button
+                    key={format.file}
+                    onClick={() => handleExport(format)}
+                    className="flex w-full items-center gap-3 px-4 py-2 text-left text-sm text-ink hover:bg-parchment transition-colors cursor-pointer"
+                    role="menuitem"
+                  >
+                    <Download className="h-4 w-4 text-ink-light" />
+                    <span>{format.label}</span>
+                    <span className="ml-auto text-xs text-ink-light">{format.hint}</span>
+                  </button>
+                ))}
+
+                <button
+                  onClick={handleCopyMarkdown}
+                  className="flex w-full items-center gap-3 px-4 py-2 text-left text-sm text-ink hover:bg-parchment transition-colors cursor-pointer"
+                  role="menuitem"
+                >
+                  {copiedKey === 'markdown' ? (
+                    <Check className="h-4 w-4 text-forest" />
+                  ) : (
+                    <Copy className="h-4 w-4 text-ink-light" />
+                  )}
+                  <span>{copiedKey === 'markdown' ? 'Copied!' : 'Copy as Markdown'}</span>
+                  <span className="ml-auto text-xs text-ink-light">For chat</span>
+                </button>
+                <button
+                  onClick={() => {
+                    setShowMenu(false);
+                    router.push(`/trip/${tripToken}/print`);
+                  }}
+                  className="flex w-full items-center gap-3 px-4 py-2 text-left text-sm text-ink hover:bg-parchment transition-colors cursor-pointer"
+                  role="menuitem"
+                >
+                  <Printer className="h-4 w-4 text-ink-light" />
+                  <span>Print itinerary</span>
+                  <span className="ml-auto text-xs text-ink-light">Or save as PDF</span>
+                </button>
+
+                {!isReadOnly && onImportFile && (
+                  <button
+                    onClick={() => {
+                      setShowMenu(false);
+                      importInputRef.current?.click();
+                    }}
+                    className="flex w-full items-center gap-3 px-4 py-2 text-left text-sm text-ink hover:bg-parchment transition-colors cursor-pointer"
+                    role="menuitem"
+                  >
+                    <Upload className="h-4 w-4 text-ink-light" />
+                    <span>Import places</span>
+                    <span className="ml-auto text-xs text-ink-light">GPX, KML, GeoJSON</span>
+                  </button>
+                )}
+
                 <div className="h-px bg-border/60" />
                 <button
                   onClick={handleCloneTrip}
@@ -453,6 +725,20 @@ export function TripHeader({
                   {isCloning ? 'Cloning…' : 'Clone trip'}
                 </button>
 
+                {!isReadOnly && (
+                  <button
+                    onClick={() => {
+                      setShowMenu(false);
+                      setShowHistory(true);
+                    }}
+                    className="flex w-full items-center gap-3 px-4 py-3 text-left text-sm text-ink hover:bg-parchment transition-colors cursor-pointer"
+                    role="menuitem"
+                  >
+                    <History className="h-4 w-4" />
+                    Version history
+                  </button>
+                )}
+
                 {!isReadOnly && (
                   <>
                     <div className="h-px bg-border/60" />
@@ -471,6 +757,34 @@ export function TripHeader({
           )}
         </div>
       </div>
+
+      {!isReadOnly && onImportFile && (
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={GEO_IMPORT_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImportFile(file);
+          }}
+        />
+      )}
+
+      {!isReadOnly && (
+        <ShareLinksModal open={showLinks} tripToken={tripToken} onClose={() => setShowLinks(false)} />
+      )}
+
+      {!isReadOnly && (
+        <VersionHistoryModal
+          open={showHistory}
+          tripToken={tripToken}
+          currentRevision={trip.revision}
+          onClose={() => setShowHistory(false)}
+          onRestored={onRestored}
+        />
+      )}
     </div>
   );
 }
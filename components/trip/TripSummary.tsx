@@ -0,0 +1,48 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Route } from 'lucide-react';
+import { DistanceUnitToggle } from '@/components/trip/DistanceUnitToggle';
+import { useDistanceUnit } from '@/hooks/useDistanceUnit';
+import { formatMinutes } from '@/lib/day-timeline';
+import { formatDistance, sumLegs } from '@/lib/distance-units';
+import { hasValidLocation } from '@/lib/discover';
+import type { RouteLeg, Trip } from '@/types/trip';
+
+interface TripSummaryProps {
+  trip: Trip;
+  /** Directions legs per day id, as reported by the map. */
+  routeLegs: Record<string, RouteLeg[]>;
+}
+
+export function TripSummary({ trip, routeLegs }: TripSummaryProps) {
+  const [unit] = useDistanceUnit();
+
+  const totals = useMemo(
+    () => sumLegs(trip.days.flatMap((day) => routeLegs[day.id] ?? [])),
+    [trip.days, routeLegs]
+  );
+  const stopCount = trip.days.reduce(
+    (count, day) => count + day.destinations.filter(hasValidLocation).length,
+    0
+  );
+  const dayCount = trip.days.length;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-xl border border-border/60 bg-parchment-mid px-3 py-2 text-sm text-ink">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <Route className="h-4 w-4 text-forest" />
+        <span>
+          {dayCount} {dayCount === 1 ? 'day' : 'days'} · {stopCount} {stopCount === 1 ? 'stop' : 'stops'}
+        </span>
+        {totals.legCount > 0 && (
+          <span className="text-ink-light">
+            {formatMinutes(totals.durationSeconds / 60)} travelling ·{' '}
+            {formatDistance(totals.distanceMeters, unit)}
+          </span>
+        )}
+      </div>
+      <DistanceUnitToggle />
+    </div>
+  );
+}
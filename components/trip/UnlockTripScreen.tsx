@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Clock, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import type { TripLinkStatus } from '@/hooks/useTrip';
+
+interface UnlockTripScreenProps {
+  status: TripLinkStatus;
+  /** Resolves to an error message, or null once unlocked. */
+  onUnlock: (passphrase: string) => Promise<string | null>;
+}
+
+export function UnlockTripScreen({ status, onUnlock }: UnlockTripScreenProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const message = await onUnlock(passphrase);
+      if (message) setError(message);
+    } catch {
+      setError('Something went wrong');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center topo-pattern px-4">
+      <div className="w-full max-w-sm card-elevated rounded-2xl bg-parchment-dark/80 backdrop-blur-sm border border-border/50 p-8 text-center">
+        {status === 'link_expired' ? (
+          <>
+            <Clock className="mx-auto h-8 w-8 text-terracotta" />
+            <h2 className="mt-4 text-2xl text-ink">This link has expired</h2>
+            <p className="mt-2 text-sm text-ink-light">
+              Ask whoever shared the trip for a new link.
+            </p>
+            <Link href="/" className="mt-6 inline-block text-sm text-forest hover:underline">
+              Plan your own trip
+            </Link>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <Lock className="mx-auto h-8 w-8 text-forest" />
+            <h2 className="mt-4 text-2xl text-ink">This trip is protected</h2>
+            <p className="mt-2 text-sm text-ink-light">Enter the passphrase you were given to view it.</p>
+            <Input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoFocus
+              autoComplete="off"
+              disabled={isUnlocking}
+              className="mt-6"
+              aria-label="Passphrase"
+            />
+            {error && (
+              <p className="mt-2 text-sm text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+            <Button type="submit" className="mt-4 w-full" disabled={!passphrase || isUnlocking}>
+              {isUnlocking ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+              Unlock
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
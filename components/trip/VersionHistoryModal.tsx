@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, History, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { IconButton } from '@/components/ui/IconButton';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import type { Trip, TripHistorySummary } from '@/types/trip';
+
+interface VersionHistoryModalProps {
+  open: boolean;
+  tripToken: string;
+  currentRevision: number;
+  onClose: () => void;
+  onRestored: (trip: Trip) => void;
+}
+
+export function VersionHistoryModal({
+  open,
+  tripToken,
+  currentRevision,
+  onClose,
+  onRestored,
+}: VersionHistoryModalProps) {
+  const [history, setHistory] = useState<TripHistorySummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [preview, setPreview] = useState<{ revision: number; trip: Trip } | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setHistory(null);
+    setSelectedRevision(null);
+    setPreview(null);
+  }, [open, tripToken]);
+
+  // Refetched as new revisions land, keeping whatever is being previewed.
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setError(null);
+
+    fetch(`/api/trips/${tripToken}/history`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to load history');
+        const data = (await response.json()) as { history: TripHistorySummary[] };
+        if (!cancelled) setHistory(data.history);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load history');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, tripToken, currentRevision]);
+
+  useEffect(() => {
+    if (selectedRevision == null) return;
+    let cancelled = false;
+
+    fetch(`/api/trips/${tripToken}/history/${selectedRevision}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to load revision');
+        const data = (await response.json()) as { entry: { revision: number; trip: Trip } };
+        if (!cancelled) setPreview({ revision: data.entry.revision, trip: data.entry.trip });
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load revision');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRevision, tripToken]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [open, onClose]);
+
+  const handleRestore = async (revision: number) => {
+    if (isRestoring) return;
+    const ok = confirm(
+      `Restore revision ${revision}? The current itinerary is kept in history, so you can switch back later.`
+    );
+    if (!ok) return;
+
+    setIsRestoring(true);
+    try {
+      const response = await fetch(`/api/trips/${tripToken}/history/${revision}/restore`, {
+        method: 'POST',
+      });
+      if (!response.ok) throw new Error('Failed to restore revision');
+      const data = (await response.json()) as { trip: Trip };
+      onRestored(data.trip);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert('Could not restore this version. Please try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div
+        className="absolute inset-0 bg-ink/30 backdrop-blur-sm"
+        onMouseDown={(e) => {
+          if (e.target !== e.currentTarget) return;
+          onClose();
+        }}
+      />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Version history"
+        className="absolute inset-x-0 bottom-4 sm:top-10 sm:bottom-auto mx-auto w-[min(640px,calc(100vw-2rem))] rounded-2xl border border-border bg-parchment-mid card-elevated-lg overflow-hidden"
+      >
+        <div className="flex items-center justify-between gap-2 border-b border-border/60 bg-parchment-mid px-3 sm:px-4 py-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <History className="h-4 w-4 text-ink-light shrink-0" />
+            <div className="min-w-0">
+              <div className="text-sm font-semibold text-ink">Version history</div>
+              <div className="text-xs text-ink-light">Preview an earlier version and restore it</div>
+            </div>
+          </div>
+          <IconButton variant="ghost" size="sm" className="h-10 w-10" onClick={onClose} title="Close">
+            <X className="h-4 w-4" />
+          </IconButton>
+        </div>
+
+        <div className="max-h-[70vh] overflow-auto p-2">
+          {error && (
+            <p className="px-3 py-2 text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+
+          {!history && !error && (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {history?.length === 0 && (
+            <p className="px-3 py-6 text-center text-sm text-ink-light">No saved versions yet.</p>
+          )}
+
+          {history?.map((entry) => {
+            const isCurrent = entry.revision === currentRevision;
+            const isSelected = entry.revision === selectedRevision;
+            return (
+              <div key={entry.revision} className="rounded-xl border border-transparent hover:border-border/60">
+                <button
+                  className="flex w-full items-start gap-3 px-3 py-3 text-left cursor-pointer"
+                  onClick={() => {
+                    setPreview(null);
+                    setSelectedRevision(isSelected ? null : entry.revision);
+                  }}
+                  aria-expanded={isSelected}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-sm text-ink">
+                      <span className="font-medium">{new Date(entry.savedAt).toLocaleString()}</span>
+                      {isCurrent && <span className="text-xs text-forest">Current</span>}
+                    </div>
+                    <ul className="mt-0.5 text-xs text-ink-light">
+                      {(entry.changes.length > 0 ? entry.changes : ['No visible changes']).map(
+                        (line, idx) => (
+                          <li key={idx} className="truncate">
+                            {line}
+                          </li>
+                        )
+                      )}
+                    </ul>
+                  </div>
+                  <ChevronDown
+                    className={[
+                      'h-4 w-4 shrink-0 mt-1 text-ink-light transition-transform duration-200',
+                      isSelected ? 'rotate-180' : 'rotate-0',
+                    ].join(' ')}
+                  />
+                </button>
+
+                {isSelected && (
+                  <div className="mx-3 mb-3 rounded-xl border border-border/60 bg-parchment p-3">
+                    {!preview || preview.revision !== entry.revision ? (
+                      <div className="flex justify-center py-4">
+                        <LoadingSpinner size="sm" />
+                      </div>
+                    ) : (
+                      <>
+                        <div className="text-sm font-semibold text-ink">{preview.trip.name}</div>
+                        <div className="mt-2 space-y-2">
+                          {preview.trip.days.map((day) => (
+                            <div key={day.id}>
+                              <div className="text-xs font-semibold text-ink">{day.label}</div>
+                              <div className="text-xs text-ink-light">
+                                {day.destinations.length > 0
+                                  ? day.destinations.map((d) => d.name).join(' · ')
+                                  : 'No destinations'}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                        {!isCurrent && (
+                          <Button
+                            size="sm"
+                            className="mt-3"
+                            disabled={isRestoring}
+                            onClick={() => handleRestore(entry.revision)}
+                          >
+                            {isRestoring ? 'Restoring…' : 'Restore this version'}
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+  className?: string;
+}
+
+export function Toast({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  durationMs = 6000,
+  className,
+}: ToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [message, durationMs, onDismiss]);
+
+  return (
+    <div
+      className={cn(
+        'fixed inset-x-0 bottom-6 z-50 mx-auto flex w-[min(440px,calc(100vw-2rem))] items-center gap-3 rounded-xl bg-ink px-4 py-3 text-sm text-parchment-mid shadow-lg',
+        className
+      )}
+      role="status"
+      aria-live="polite"
+    >
+      <span className="flex-1 min-w-0 truncate">{message}</span>
+      {actionLabel && onAction && (
+        <button
+          className="shrink-0 font-semibold text-terracotta-light hover:text-white transition-colors cursor-pointer"
+          onClick={() => {
+            onAction();
+            onDismiss();
+          }}
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button
+        className="shrink-0 rounded p-0.5 text-parchment-mid/70 hover:text-white cursor-pointer"
+        onClick={onDismiss}
+        aria-label="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getDistanceUnit, setDistanceUnit, type DistanceUnit } from '@/lib/distance-units';
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Keep other tabs in step too.
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+/** The viewer's km/mi preference, shared by every component and persisted locally. */
+export function useDistanceUnit(): [DistanceUnit, (unit: DistanceUnit) => void] {
+  const unit = useSyncExternalStore(subscribe, getDistanceUnit, () => 'km' as const);
+  const update = useCallback((next: DistanceUnit) => {
+    setDistanceUnit(next);
+    listeners.forEach((listener) => listener());
+  }, []);
+  return [unit, update];
+}
@@ -1,11 +1,16 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import type { Trip } from '@/types/trip';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Trip, TripPresence } from '@/types/trip';
 import { upsertRecentTrip } from '@/lib/recents';
+import { generateId } from '@/lib/ulid';
+import { applyTripOps, invertTripOps, TripOpError, type TripOp } from '@/lib/trip-ops';
 
 type TripAccessRole = 'view' | 'edit';
 
+/** Why a link that exists can't be used yet; see `TripLinkError` on the server. */
+export type TripLinkStatus = 'passphrase_required' | 'link_expired';
+
 interface TripApiResponse {
   trip: Trip;
   accessRole: TripAccessRole;
@@ -15,12 +20,48 @@ interface TripApiResponse {
   };
 }
 
+export interface TripConflict {
+  /** The edit the server rejected, as it looked locally. */
+  localTrip: Trip;
+  /** The newer copy the server returned with the 409. */
+  serverTrip: Trip;
+}
+
+interface UndoEntry {
+  undo: TripOp[];
+  redo: TripOp[];
+}
+
+const MAX_UNDO_ENTRIES = 50;
+
 export function useTrip(tripToken: string | null) {
   const [trip, setTrip] = useState<Trip | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [accessRole, setAccessRole] = useState<TripAccessRole>('edit');
   const [tokens, setTokens] = useState<TripApiResponse['tokens']>({});
+  const [linkStatus, setLinkStatus] = useState<TripLinkStatus | null>(null);
+  const [conflict, setConflict] = useState<TripConflict | null>(null);
+  // Saves are chained, and edits made while an earlier save was in flight are built on a
+  // revision our own save has since advanced. Remember each own save (base -> saved) so
+  // those edits can be sent against the revision they actually build on.
+  const ownSavesRef = useRef<Map<number, number>>(new Map());
+  const serverRevisionRef = useRef<number>(0);
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const pendingSavesRef = useRef(0);
+  const [clientId] = useState(() => generateId());
+  const [presence, setPresence] = useState<TripPresence[]>([]);
+  const presenceDayIdRef = useRef<string | null>(null);
+  const undoStackRef = useRef<UndoEntry[]>([]);
+  const redoStackRef = useRef<UndoEntry[]>([]);
+  const [undoState, setUndoState] = useState({ canUndo: false, canRedo: false });
+
+  const syncUndoState = useCallback(() => {
+    setUndoState({
+      canUndo: undoStackRef.current.length > 0,
+      canRedo: redoStackRef.current.length > 0,
+    });
+  }, []);
 
   const fetchTrip = useCallback(async () => {
     if (!tripToken) {
@@ -33,11 +74,22 @@ export function useTrip(tripToken: string | null) {
 
     try {
       const response = await fetch(`/api/trips/${tripToken}`);
+      if (response.status === 401 || response.status === 410) {
+        const data = (await response.json().catch(() => ({}))) as { code?: string };
+        if (data.code === 'passphrase_required' || data.code === 'link_expired') {
+          setLinkStatus(data.code);
+          return;
+        }
+      }
       if (!response.ok) {
         throw new Error('Failed to fetch trip');
       }
+      setLinkStatus(null);
       const data = (await response.json()) as TripApiResponse;
+      ownSavesRef.current.clear();
+      serverRevisionRef.current = data.trip.revision;
       setTrip(data.trip);
+      setConflict(null);
       setAccessRole(data.accessRole);
       setTokens(data.tokens || {});
       upsertRecentTrip({
@@ -58,8 +110,161 @@ export function useTrip(tripToken: string | null) {
     fetchTrip();
   }, [fetchTrip]);
 
+  /** Sends a protected link's passphrase; resolves to an error message, or null once unlocked. */
+  const unlock = useCallback(
+    async (passphrase: string): Promise<string | null> => {
+      if (!tripToken) return null;
+      const response = await fetch(`/api/trips/${tripToken}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ passphrase }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as { error?: string; code?: string };
+        if (data.code === 'link_expired') setLinkStatus('link_expired');
+        return data.error || 'Could not unlock this link';
+      }
+      await fetchTrip();
+      return null;
+    },
+    [fetchTrip, tripToken]
+  );
+
+  const applyServerResponse = useCallback(
+    (data: TripApiResponse) => {
+      serverRevisionRef.current = data.trip.revision;
+      setTrip(data.trip);
+      setAccessRole(data.accessRole);
+      setTokens(data.tokens || {});
+      if (tripToken) {
+        upsertRecentTrip({
+          token: tripToken,
+          tripId: data.trip.id,
+          name: data.trip.name,
+          accessRole: data.accessRole,
+          updatedAt: data.trip.updatedAt,
+        });
+      }
+    },
+    [tripToken]
+  );
+
+  const enqueueSave = useCallback(<T,>(run: () => Promise<T>): Promise<T> => {
+    pendingSavesRef.current += 1;
+    const result = saveQueueRef.current.then(run, run).finally(() => {
+      pendingSavesRef.current -= 1;
+    });
+    saveQueueRef.current = result.catch(() => undefined);
+    return result;
+  }, []);
+
+  // Live updates from other editors. While our own saves are in flight we skip pushed
+  // copies: the save response carries the merged result (or a conflict) anyway, and
+  // applying a push mid-save would flash our optimistic edit away.
+  useEffect(() => {
+    if (!tripToken || linkStatus || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`/api/trips/${tripToken}/events`);
+    source.addEventListener('trip', (e) => {
+      const data = JSON.parse((e as MessageEvent<string>).data) as { trip: Trip };
+      if (pendingSavesRef.current > 0) return;
+      if (data.trip.revision <= serverRevisionRef.current) return;
+      serverRevisionRef.current = data.trip.revision;
+      setTrip(data.trip);
+    });
+    source.addEventListener('presence', (e) => {
+      const data = JSON.parse((e as MessageEvent<string>).data) as { presence: TripPresence[] };
+      setPresence(data.presence.filter((p) => p.clientId !== clientId));
+    });
+
+    return () => source.close();
+  }, [clientId, linkStatus, tripToken]);
+
+  const postPresence = useCallback(
+    (leaving = false) => {
+      if (!tripToken) return;
+      const body = JSON.stringify({ clientId, dayId: presenceDayIdRef.current, leaving });
+      if (leaving && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+        navigator.sendBeacon(`/api/trips/${tripToken}/presence`, body);
+        return;
+      }
+      fetch(`/api/trips/${tripToken}/presence`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: leaving,
+      }).catch(() => {
+        // Presence is best-effort; the next heartbeat retries.
+      });
+    },
+    [clientId, tripToken]
+  );
+
+  useEffect(() => {
+    if (!tripToken || linkStatus) return;
+    const heartbeat = setInterval(() => postPresence(), 20_000);
+    const onPageHide = () => postPresence(true);
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', onPageHide);
+      postPresence(true);
+    };
+  }, [linkStatus, postPresence, tripToken]);
+
+  /** Tells other tabs which day this one has open (null for the whole-trip view). */
+  const setPresenceDayId = useCallback(
+    (dayId: string | null) => {
+      presenceDayIdRef.current = dayId;
+      postPresence();
+    },
+    [postPresence]
+  );
+
+  /**
+   * PUTs `nextTrip`, whose `revision` is the server revision it was edited from.
+   * Resolves to the server's copy on success, or records a conflict and resolves to null.
+   */
+  const putTrip = useCallback(
+    (nextTrip: Trip): Promise<Trip | null> => {
+      const run = async () => {
+        let baseRevision = nextTrip.revision;
+        while (ownSavesRef.current.has(baseRevision)) {
+          baseRevision = ownSavesRef.current.get(baseRevision)!;
+        }
+
+        const response = await fetch(`/api/trips/${tripToken}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...nextTrip, revision: baseRevision }),
+        });
+
+        if (response.status === 409) {
+          const data = (await response.json()) as TripApiResponse;
+          applyServerResponse(data);
+          setConflict({ localTrip: nextTrip, serverTrip: data.trip });
+          return null;
+        }
+
+        if (!response.ok) {
+          throw new Error('Failed to update trip');
+        }
+
+        const data = (await response.json()) as TripApiResponse;
+        ownSavesRef.current.set(baseRevision, data.trip.revision);
+        applyServerResponse(data);
+        return data.trip;
+      };
+
+      return enqueueSave(run);
+    },
+    [applyServerResponse, enqueueSave, tripToken]
+  );
+
   const updateTrip = useCallback(
-    async (updates: Partial<Trip> | ((prev: Trip | null) => Trip)) => {
+    async (updates: Partial<Trip> | ((prev: Trip) => Trip)) => {
       if (!trip) return;
       if (accessRole !== 'edit') {
         throw new Error('Read-only link');
@@ -71,38 +276,149 @@ export function useTrip(tripToken: string | null) {
       setTrip(updatedTrip);
 
       try {
-        const response = await fetch(`/api/trips/${tripToken}`, {
-          method: 'PUT',
+        await putTrip(updatedTrip);
+      } catch (err) {
+        setTrip(trip);
+        setError(err instanceof Error ? err.message : 'Failed to save changes');
+        throw err;
+      }
+    },
+    [trip, accessRole, putTrip]
+  );
+
+  /**
+   * Applies granular ops locally and sends just the ops, which the server merges into the
+   * latest stored trip. Unlike `updateTrip` there is no revision check: edits to different
+   * parts of the trip by different people both land. Recorded on the undo stack straight
+   * away (so "Undo" works mid-save) and taken off again if the save fails. Never rejects:
+   * failures are reported through `error`, and the promise resolves to whether the ops
+   * were saved.
+   */
+  const sendOps = useCallback(
+    async (ops: TripOp[], history: 'record' | 'undo' | 'redo' = 'record'): Promise<boolean> => {
+      if (!trip || accessRole !== 'edit') return false;
+
+      let optimisticTrip: Trip;
+      let inverse: TripOp[];
+      try {
+        inverse = invertTripOps(trip, ops);
+        optimisticTrip = applyTripOps(trip, ops);
+      } catch (err) {
+        // The target is already gone locally; the server would reject it too.
+        if (!(err instanceof TripOpError)) {
+          setError(err instanceof Error ? err.message : 'Failed to save changes');
+        }
+        return false;
+      }
+      setTrip(optimisticTrip);
+
+      const entry: UndoEntry = { undo: inverse, redo: ops };
+      if (history === 'undo') {
+        redoStackRef.current.push(entry);
+      } else {
+        undoStackRef.current.push(entry);
+        if (undoStackRef.current.length > MAX_UNDO_ENTRIES) undoStackRef.current.shift();
+        if (history === 'record') redoStackRef.current = [];
+      }
+      syncUndoState();
+      // A change the server never saved mustn't be undone (or redone) later.
+      const forget = () => {
+        undoStackRef.current = undoStackRef.current.filter((e) => e !== entry);
+        redoStackRef.current = redoStackRef.current.filter((e) => e !== entry);
+        syncUndoState();
+      };
+
+      const run = async () => {
+        const baseRevision = serverRevisionRef.current;
+        const response = await fetch(`/api/trips/${tripToken}/ops`, {
+          method: 'PATCH',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify(updatedTrip),
+          body: JSON.stringify({ ops }),
         });
 
+        if (response.status === 409) {
+          // Someone else removed what these ops targeted; show their copy instead.
+          const data = (await response.json()) as TripApiResponse;
+          applyServerResponse(data);
+          return false;
+        }
+
         if (!response.ok) {
           throw new Error('Failed to update trip');
         }
 
         const data = (await response.json()) as TripApiResponse;
-        setTrip(data.trip);
-        setAccessRole(data.accessRole);
-        setTokens(data.tokens || {});
-        if (tripToken) {
-          upsertRecentTrip({
-            token: tripToken,
-            tripId: data.trip.id,
-            name: data.trip.name,
-            accessRole: data.accessRole,
-            updatedAt: data.trip.updatedAt,
-          });
+        // Only a save with nothing merged in counts as ours for later whole-trip PUTs.
+        if (data.trip.revision === baseRevision + 1) {
+          ownSavesRef.current.set(baseRevision, data.trip.revision);
         }
+        applyServerResponse(data);
+        return true;
+      };
+
+      try {
+        const saved = await enqueueSave(run);
+        if (!saved) forget();
+        return saved;
       } catch (err) {
+        forget();
         setTrip(trip);
         setError(err instanceof Error ? err.message : 'Failed to save changes');
+        return false;
+      }
+    },
+    [trip, accessRole, applyServerResponse, enqueueSave, syncUndoState, tripToken]
+  );
+
+  const applyOps = useCallback((ops: TripOp[]) => sendOps(ops), [sendOps]);
+
+  /**
+   * Undo/redo replay the inverse (or original) ops through the ops endpoint, so they merge
+   * with other editors' changes rather than rolling the whole trip back.
+   */
+  const undo = useCallback(async () => {
+    const entry = undoStackRef.current.pop();
+    syncUndoState();
+    if (!entry) return;
+    await sendOps(entry.undo, 'undo');
+  }, [sendOps, syncUndoState]);
+
+  const redo = useCallback(async () => {
+    const entry = redoStackRef.current.pop();
+    syncUndoState();
+    if (!entry) return;
+    await sendOps(entry.redo, 'redo');
+  }, [sendOps, syncUndoState]);
+
+  /** Adopts a trip returned by another endpoint, e.g. restoring a history revision. */
+  const applyServerTrip = useCallback((next: Trip) => {
+    serverRevisionRef.current = next.revision;
+    setTrip(next);
+  }, []);
+
+  /**
+   * Settles a conflict: either keep the server copy (already applied when the 409 arrived)
+   * or re-save the rejected local edit on top of the server's revision.
+   */
+  const resolveConflict = useCallback(
+    async (resolution: 'keep-server' | 'overwrite') => {
+      const current = conflict;
+      setConflict(null);
+      if (!current || resolution === 'keep-server') return;
+
+      const rebased = { ...current.localTrip, revision: current.serverTrip.revision };
+      setTrip(rebased);
+      try {
+        await putTrip(rebased);
+      } catch (err) {
+        setTrip(current.serverTrip);
+        setError(err instanceof Error ? err.message : 'Failed to save changes');
         throw err;
       }
     },
-    [trip, tripToken, accessRole]
+    [conflict, putTrip]
   );
 
   return {
@@ -110,9 +426,23 @@ export function useTrip(tripToken: string | null) {
     isLoading,
     error,
     updateTrip,
+    applyOps,
+    applyServerTrip,
+    undo,
+    redo,
+    canUndo: undoState.canUndo,
+    canRedo: undoState.canRedo,
     refetch: fetchTrip,
+    conflict,
+    resolveConflict,
+    presence,
+    setPresenceDayId,
     accessRole,
     tokens,
+    // For link resets, which change the tokens but not the trip.
+    setTokens,
+    linkStatus,
+    unlock,
     isReadOnly: accessRole !== 'edit',
   };
 }
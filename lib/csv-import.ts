@@ -0,0 +1,153 @@
+import type { Coordinates, Day, Trip } from '@/types/trip';
+import { getTripDayDates } from '@/lib/trip-dates';
+
+/** Keeps one import inside a single ops request. */
+export const MAX_IMPORT_ROWS = 150;
+
+export interface ImportRow {
+  /** 1-based line in the source, for messages. */
+  line: number;
+  name: string;
+  address?: string;
+  location?: Coordinates;
+  notes: string;
+  /** Raw `day` cell: a day number ("2"), label ("Day 2", "Kyoto") or date ("2026-06-04"). */
+  day?: string;
+}
+
+export interface ParsedImport {
+  rows: ImportRow[];
+  warnings: string[];
+}
+
+const COLUMN_ALIASES: Record<keyof Omit<ImportRow, 'line' | 'location'> | 'lat' | 'lng', string[]> = {
+  name: ['name', 'title', 'place', 'destination'],
+  address: ['address', 'location', 'addr'],
+  lat: ['lat', 'latitude'],
+  lng: ['lng', 'lon', 'long', 'longitude'],
+  notes: ['notes', 'note', 'description', 'comment', 'comments'],
+  day: ['day', 'date', 'day label'],
+};
+
+function detectDelimiter(firstLine: string): string {
+  const counts = ['\t', ',', ';'].map((d) => [d, firstLine.split(d).length - 1] as const);
+  counts.sort((a, b) => b[1] - a[1]);
+  return counts[0]![1] > 0 ? counts[0]![0] : ',';
+}
+
+/** RFC 4180-style parsing: quoted fields may contain delimiters, quotes ("") and newlines. */
+export function parseDelimited(text: string, delimiter?: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const sep = delimiter ?? detectDelimiter(source.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === sep) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseCoordinate(value: string | undefined, limit: number): number | null {
+  if (value == null || value.trim() === '') return null;
+  const n = Number(value.trim());
+  return Number.isFinite(n) && Math.abs(n) <= limit ? n : null;
+}
+
+/**
+ * Reads a spreadsheet export with a header row. Columns are matched by name (see
+ * `COLUMN_ALIASES`, case-insensitive); rows need a name or an address.
+ */
+export function parseDestinationImport(text: string): ParsedImport {
+  const table = parseDelimited(text);
+  const warnings: string[] = [];
+  const header = table[0]?.map((h) => h.trim().toLowerCase()) ?? [];
+
+  const columnIndex = (key: keyof typeof COLUMN_ALIASES) =>
+    header.findIndex((h) => COLUMN_ALIASES[key].includes(h));
+  const columns = {
+    name: columnIndex('name'),
+    address: columnIndex('address'),
+    lat: columnIndex('lat'),
+    lng: columnIndex('lng'),
+    notes: columnIndex('notes'),
+    day: columnIndex('day'),
+  };
+  if (columns.name === -1 && columns.address === -1) {
+    return { rows: [], warnings: ['Add a header row with at least a "name" or "address" column.'] };
+  }
+
+  const rows: ImportRow[] = [];
+  table.slice(1).forEach((cells, i) => {
+    const line = i + 2;
+    const cell = (index: number) => (index === -1 ? '' : (cells[index] ?? '').trim());
+    if (cells.every((c) => c.trim() === '')) return;
+
+    const address = cell(columns.address);
+    const name = cell(columns.name) || address;
+    if (!name) {
+      warnings.push(`Line ${line}: skipped (no name or address).`);
+      return;
+    }
+
+    const lat = parseCoordinate(cell(columns.lat), 90);
+    const lng = parseCoordinate(cell(columns.lng), 180);
+    if ((cell(columns.lat) || cell(columns.lng)) && (lat == null || lng == null)) {
+      warnings.push(`Line ${line}: ignored invalid coordinates.`);
+    }
+
+    rows.push({
+      line,
+      name,
+      address: address || undefined,
+      location: lat != null && lng != null ? { lat, lng } : undefined,
+      notes: cell(columns.notes),
+      day: cell(columns.day) || undefined,
+    });
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    warnings.push(`Only the first ${MAX_IMPORT_ROWS} rows will be imported.`);
+  }
+  return { rows: rows.slice(0, MAX_IMPORT_ROWS), warnings };
+}
+
+/** Matches a `day` cell to an existing day by label, then by date, then by 1-based number. */
+export function matchImportDay(trip: Pick<Trip, 'days' | 'startDate'>, dayRef: string): Day | null {
+  const ref = dayRef.trim().toLowerCase();
+  const byLabel = trip.days.find((d) => d.label.trim().toLowerCase() === ref);
+  if (byLabel) return byLabel;
+  const dateIndex = getTripDayDates(trip).indexOf(ref);
+  if (dateIndex !== -1) return trip.days[dateIndex] ?? null;
+  const number = /^(?:day\s*)?(\d+)$/.exec(ref)?.[1];
+  return number ? trip.days[Number(number) - 1] ?? null : null;
+}
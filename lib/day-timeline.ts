@@ -0,0 +1,105 @@
+import type { Destination, RouteLeg } from '@/types/trip';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface TimelineStop {
+  /** Minutes after midnight; null until something earlier in the day pins the clock. */
+  arrival: number | null;
+  departure: number | null;
+  /** True when `arrival` comes from the stop's own arrival time rather than the running clock. */
+  scheduled: boolean;
+  /** Idle time before a planned arrival. */
+  waitMinutes: number;
+  /** How late a fixed-time stop would be reached; 0 when on time. */
+  lateMinutes: number;
+  /** Travel time from the previous located stop, when Directions has reported it. */
+  travelMinutes: number | null;
+}
+
+export interface DayTimeline {
+  stops: Map<string, TimelineStop>;
+  /** When the last timed stop is left, in minutes after midnight (may exceed a day). */
+  endMinutes: number | null;
+  warnings: string[];
+}
+
+export function parseTimeOfDay(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** e.g. 1130 → "18:50" (wrapping past midnight, with "+1d"). */
+export function formatTimeOfDay(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const days = Math.floor(rounded / MINUTES_PER_DAY);
+  const inDay = rounded - days * MINUTES_PER_DAY;
+  const hh = String(Math.floor(inDay / 60)).padStart(2, '0');
+  const mm = String(inDay % 60).padStart(2, '0');
+  return days > 0 ? `${hh}:${mm} +${days}d` : `${hh}:${mm}`;
+}
+
+/** e.g. 95 → "1h 35m". */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.max(0, Math.round(minutes));
+  const h = Math.floor(rounded / 60);
+  const m = rounded % 60;
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+}
+
+/**
+ * Walks a day's stops in order, adding each stop's planned duration and the travel time
+ * to the next located stop. The clock starts at the first stop with an arrival time;
+ * later arrival times act as "not before" (waiting if early), and fixed-time stops that
+ * can't be reached in time produce a warning.
+ */
+export function computeDayTimeline(destinations: Destination[], legs: RouteLeg[] = []): DayTimeline {
+  const legMinutes = new Map(
+    legs.map((leg) => [`${leg.fromDestinationId}>${leg.toDestinationId}`, leg.durationSeconds / 60])
+  );
+  const stops = new Map<string, TimelineStop>();
+  const warnings: string[] = [];
+
+  let clock: number | null = null;
+  let previousLocatedId: string | null = null;
+
+  for (const destination of destinations) {
+    let travelMinutes: number | null = null;
+    if (destination.location && previousLocatedId) {
+      travelMinutes = legMinutes.get(`${previousLocatedId}>${destination.id}`) ?? null;
+    }
+    if (destination.location) previousLocatedId = destination.id;
+
+    const expected: number | null = clock == null ? null : clock + (travelMinutes ?? 0);
+    const planned = parseTimeOfDay(destination.arrivalTime);
+
+    let arrival: number | null = expected;
+    let scheduled = false;
+    let waitMinutes = 0;
+    let lateMinutes = 0;
+    if (planned != null) {
+      if (expected == null || expected <= planned) {
+        arrival = planned;
+        scheduled = true;
+        waitMinutes = expected == null ? 0 : planned - expected;
+      } else if (destination.fixedTime) {
+        lateMinutes = Math.round(expected - planned);
+        warnings.push(
+          `Can't reach ${destination.name || 'a stop'} by ${destination.arrivalTime} (about ${formatMinutes(lateMinutes)} late).`
+        );
+      }
+    }
+
+    const departure: number | null = arrival == null ? null : arrival + (destination.durationMinutes ?? 0);
+    stops.set(destination.id, { arrival, departure, scheduled, waitMinutes, lateMinutes, travelMinutes });
+    if (departure != null) clock = departure;
+  }
+
+  if (clock != null && clock > MINUTES_PER_DAY) {
+    warnings.push(`This day runs past midnight (ends around ${formatTimeOfDay(clock)}).`);
+  }
+
+  return { stops, endMinutes: clock, warnings };
+}
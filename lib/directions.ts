@@ -0,0 +1,71 @@
+import type { Coordinates, TravelMode } from '@/types/trip';
+
+/** Limits of the Directions web service: origin + destination + 23 waypoints. */
+export const MAX_DIRECTIONS_POINTS = 25;
+
+export interface DirectionsSegmentRequest {
+  mode: TravelMode;
+  /** Ordered stops; two or more. */
+  points: Coordinates[];
+}
+
+export interface DirectionsSegmentResult {
+  /** Encoded overview polyline for the whole segment. */
+  polyline: string;
+  /** One entry per consecutive pair of points. */
+  legs: Array<{ durationSeconds: number; distanceMeters: number }>;
+}
+
+type DirectionsResponse = {
+  status: string;
+  error_message?: string;
+  routes?: Array<{
+    overview_polyline?: { points?: string };
+    legs?: Array<{ duration?: { value?: number }; distance?: { value?: number } }>;
+  }>;
+};
+
+function formatPoint(point: Coordinates) {
+  return `${point.lat.toFixed(6)},${point.lng.toFixed(6)}`;
+}
+
+/** Identical stops and mode always share a key, whichever trip asks. */
+export function directionsSegmentKey(segment: DirectionsSegmentRequest): string {
+  return `${segment.mode}:${segment.points.map(formatPoint).join('|')}`;
+}
+
+export async function googleDirections(args: {
+  apiKey: string;
+  segment: DirectionsSegmentRequest;
+}): Promise<DirectionsSegmentResult | null> {
+  const { points, mode } = args.segment;
+  const url = new URL('https://maps.googleapis.com/maps/api/directions/json');
+  url.searchParams.set('origin', formatPoint(points[0]!));
+  url.searchParams.set('destination', formatPoint(points[points.length - 1]!));
+  if (points.length > 2) {
+    url.searchParams.set('waypoints', points.slice(1, -1).map(formatPoint).join('|'));
+  }
+  url.searchParams.set('mode', mode);
+  url.searchParams.set('key', args.apiKey);
+
+  const res = await fetch(url.toString(), { method: 'GET' });
+  if (!res.ok) return null;
+  const data = (await res.json()) as DirectionsResponse;
+  if (data.status !== 'OK') {
+    if (data.status !== 'ZERO_RESULTS') {
+      console.error('Directions request failed:', data.status, data.error_message);
+    }
+    return null;
+  }
+
+  const route = data.routes?.[0];
+  const polyline = route?.overview_polyline?.points;
+  if (!route || !polyline) return null;
+  return {
+    polyline,
+    legs: (route.legs ?? []).map((leg) => ({
+      durationSeconds: leg.duration?.value ?? 0,
+      distanceMeters: leg.distance?.value ?? 0,
+    })),
+  };
+}
@@ -0,0 +1,66 @@
+import type { RouteLeg } from '@/types/trip';
+
+export type DistanceUnit = 'km' | 'mi';
+
+export const DISTANCE_UNITS: DistanceUnit[] = ['km', 'mi'];
+
+const METERS_PER_MILE = 1609.344;
+const STORAGE_KEY = 'dailyDally.distanceUnit.v1';
+
+/** e.g. 850 → "850 m", 4200 → "4.2 km", 4200 in miles → "2.6 mi". */
+export function formatDistance(meters: number, unit: DistanceUnit): string {
+  if (unit === 'mi') {
+    const miles = meters / METERS_PER_MILE;
+    return `${miles < 10 ? miles.toFixed(1) : Math.round(miles).toLocaleString()} mi`;
+  }
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  const km = meters / 1000;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km).toLocaleString()} km`;
+}
+
+export interface LegTotals {
+  legCount: number;
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+export function sumLegs(legs: RouteLeg[] = []): LegTotals {
+  return legs.reduce<LegTotals>(
+    (totals, leg) => ({
+      legCount: totals.legCount + 1,
+      distanceMeters: totals.distanceMeters + leg.distanceMeters,
+      durationSeconds: totals.durationSeconds + leg.durationSeconds,
+    }),
+    { legCount: 0, distanceMeters: 0, durationSeconds: 0 }
+  );
+}
+
+function isBrowser(): boolean {
+  return typeof window !== 'undefined' && typeof window.localStorage !== 'undefined';
+}
+
+/** Miles for US/UK/Liberia/Myanmar locales, otherwise kilometres. */
+function defaultDistanceUnit(): DistanceUnit {
+  if (typeof navigator === 'undefined') return 'km';
+  const region = navigator.language.split('-')[1]?.toUpperCase();
+  return region && ['US', 'GB', 'LR', 'MM'].includes(region) ? 'mi' : 'km';
+}
+
+export function getDistanceUnit(): DistanceUnit {
+  if (!isBrowser()) return 'km';
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw === 'km' || raw === 'mi' ? raw : defaultDistanceUnit();
+  } catch {
+    return defaultDistanceUnit();
+  }
+}
+
+export function setDistanceUnit(unit: DistanceUnit) {
+  if (!isBrowser()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, unit);
+  } catch {
+    // ignore storage quota / privacy mode errors
+  }
+}
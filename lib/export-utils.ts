@@ -0,0 +1,53 @@
+import type { Day, Trip } from '@/types/trip';
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** An indented, escaped XML element as a one-line array, or none when `value` is empty. */
+export function tag(name: string, value: string | undefined, indent: string): string[] {
+  return value ? [`${indent}<${name}>${escapeXml(value)}</${name}>`] : [];
+}
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+/** e.g. "kyoto-spring.gpx", or "kyoto-spring-day-2.gpx" for a single day. */
+export function exportFileName(trip: Trip, extension: string, day?: Day): string {
+  const base = slugify(trip.name) || 'trip';
+  const suffix = day ? `-${slugify(day.label) || 'day'}` : '';
+  return `${base}${suffix}.${extension}`;
+}
+
+export function attachmentHeaders(contentType: string, fileName: string): HeadersInit {
+  return {
+    'Content-Type': contentType,
+    'Content-Disposition': `attachment; filename="${fileName}"`,
+    'Cache-Control': 'no-store',
+  };
+}
+
+/**
+ * Resolves an export's optional `?day=` (a 0-based index, as in the trip page URL, or a
+ * day id). Returns all days when absent and null when it matches nothing.
+ */
+export function resolveExportDays(trip: Trip, dayParam: string | null): Day[] | null {
+  if (dayParam == null || dayParam === '') return trip.days;
+  const byId = trip.days.find((d) => d.id === dayParam);
+  if (byId) return [byId];
+  if (!/^\d+$/.test(dayParam)) return null;
+  const day = trip.days[Number(dayParam)];
+  return day ? [day] : null;
+}
@@ -0,0 +1,261 @@
+import type { Coordinates, Destination } from '@/types/trip';
+
+export type GeoImportFormat = 'gpx' | 'kml' | 'geojson';
+
+/**
+ * For file inputs and for recognising dropped files. Plain `.json` is left out: those are
+ * usually trip backups, which are imported from the home page.
+ */
+export const GEO_IMPORT_EXTENSIONS = ['.gpx', '.kml', '.geojson'];
+
+export function isGeoImportFile(fileName: string) {
+  const lower = fileName.toLowerCase();
+  return GEO_IMPORT_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+export type ImportedStop = Omit<Destination, 'id'> & { location: Coordinates };
+
+/** One would-be Day: a KML folder, a GPX route or track, or a GeoJSON group. */
+export interface ImportedDay {
+  label: string;
+  destinations: ImportedStop[];
+}
+
+export interface GeoImportResult {
+  format: GeoImportFormat;
+  days: ImportedDay[];
+  warnings: string[];
+}
+
+export class GeoImportError extends Error {
+  name = 'GeoImportError';
+}
+
+function isValidCoordinate(lat: number, lng: number) {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+/** My Maps descriptions are HTML; keep the text and line breaks. */
+function htmlToText(value: string): string {
+  if (!/[<&]/.test(value)) return value.trim();
+  const doc = new DOMParser().parseFromString(
+    value.replace(/<br\s*\/?>/gi, '\n').replace(/<\/p>/gi, '\n'),
+    'text/html'
+  );
+  return (doc.body.textContent ?? '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/** Text of the first direct child named `name` (namespace-agnostic). */
+function childText(el: Element, name: string): string {
+  for (const child of Array.from(el.children)) {
+    if (child.localName === name) return child.textContent?.trim() ?? '';
+  }
+  return '';
+}
+
+function childElements(el: Element, name: string): Element[] {
+  return Array.from(el.children).filter((c) => c.localName === name);
+}
+
+function makeStop(name: string, lat: number, lng: number, notes = '', address = ''): ImportedStop {
+  return {
+    name: name || 'Untitled place',
+    notes,
+    location: { lat, lng },
+    ...(address ? { address } : {}),
+  };
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new GeoImportError('The file is not valid XML');
+  }
+  return doc;
+}
+
+function gpxPoint(el: Element): ImportedStop | null {
+  const lat = Number(el.getAttribute('lat'));
+  const lng = Number(el.getAttribute('lon'));
+  if (!isValidCoordinate(lat, lng)) return null;
+  return makeStop(childText(el, 'name'), lat, lng, childText(el, 'desc'), childText(el, 'cmt'));
+}
+
+/**
+ * GPX: each route becomes a day; each track becomes a day with its named points, or its
+ * start and end when none are named. Loose waypoints share one day.
+ */
+function parseGpx(doc: Document, fallbackLabel: string): GeoImportResult {
+  const root = doc.documentElement;
+  const warnings: string[] = [];
+  const days: ImportedDay[] = [];
+  const metadata = childElements(root, 'metadata')[0];
+  const docName = (metadata && childText(metadata, 'name')) || fallbackLabel;
+
+  const waypoints = childElements(root, 'wpt').map(gpxPoint).filter((p): p is ImportedStop => !!p);
+  if (waypoints.length > 0) days.push({ label: docName, destinations: waypoints });
+
+  childElements(root, 'rte').forEach((rte, i) => {
+    const stops = childElements(rte, 'rtept').map(gpxPoint).filter((p): p is ImportedStop => !!p);
+    if (stops.length > 0) days.push({ label: childText(rte, 'name') || `Route ${i + 1}`, destinations: stops });
+  });
+
+  childElements(root, 'trk').forEach((trk, i) => {
+    const label = childText(trk, 'name') || `Track ${i + 1}`;
+    const points = childElements(trk, 'trkseg').flatMap((seg) => childElements(seg, 'trkpt'));
+    const named = points.filter((p) => childText(p, 'name')).map(gpxPoint);
+    let stops = named.filter((p): p is ImportedStop => !!p);
+    if (stops.length === 0 && points.length > 0) {
+      const first = gpxPoint(points[0]!);
+      const last = gpxPoint(points[points.length - 1]!);
+      stops = [
+        ...(first ? [{ ...first, name: `${label} start` }] : []),
+        ...(last && points.length > 1 ? [{ ...last, name: `${label} end` }] : []),
+      ];
+      warnings.push(`${label}: only the start and end of the track were kept.`);
+    }
+    if (stops.length > 0) days.push({ label, destinations: stops });
+  });
+
+  return { format: 'gpx', days, warnings };
+}
+
+function kmlPlacemark(el: Element): ImportedStop | null {
+  const point = el.getElementsByTagNameNS('*', 'Point')[0];
+  const coordinates = point ? childText(point, 'coordinates') : '';
+  if (!coordinates) return null;
+  const [lng, lat] = coordinates.split(/[\s,]+/).map(Number);
+  if (lng == null || lat == null || !isValidCoordinate(lat, lng)) return null;
+  return makeStop(
+    childText(el, 'name'),
+    lat,
+    lng,
+    htmlToText(childText(el, 'description')),
+    childText(el, 'address')
+  );
+}
+
+/**
+ * KML: every Folder with point placemarks becomes a day (nested folders flatten into
+ * their own days); placemarks outside any folder go to a day named after the document.
+ * Lines and polygons are skipped.
+ */
+function parseKml(doc: Document, fallbackLabel: string): GeoImportResult {
+  const warnings: string[] = [];
+  const days: ImportedDay[] = [];
+  const documentEl = doc.getElementsByTagNameNS('*', 'Document')[0] ?? doc.documentElement;
+  let skipped = 0;
+
+  const collect = (container: Element, label: string) => {
+    const stops: ImportedStop[] = [];
+    for (const placemark of childElements(container, 'Placemark')) {
+      const stop = kmlPlacemark(placemark);
+      if (stop) stops.push(stop);
+      else skipped += 1;
+    }
+    if (stops.length > 0) days.push({ label, destinations: stops });
+    childElements(container, 'Folder').forEach((folder, i) =>
+      collect(folder, childText(folder, 'name') || `Folder ${i + 1}`)
+    );
+    // Google Earth sometimes nests a Document inside the root Document.
+    childElements(container, 'Document').forEach((inner) =>
+      collect(inner, childText(inner, 'name') || label)
+    );
+  };
+  collect(documentEl, childText(documentEl, 'name') || fallbackLabel);
+
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} ${skipped === 1 ? 'placemark' : 'placemarks'} without a point (lines or shapes).`);
+  }
+  return { format: 'kml', days, warnings };
+}
+
+type GeoJsonFeature = {
+  type?: string;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+  properties?: Record<string, unknown> | null;
+};
+
+function stringProp(props: Record<string, unknown>, keys: string[]): string {
+  for (const key of keys) {
+    const value = props[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') return String(value);
+  }
+  return '';
+}
+
+/**
+ * GeoJSON: Point features become stops, grouped into days by a `dayLabel`/`day`
+ * property (or `dayIndex`), in `order` when present; otherwise one day.
+ */
+function parseGeoJson(data: unknown, fallbackLabel: string): GeoImportResult {
+  const root = data as { type?: string; features?: unknown; name?: unknown };
+  const features: GeoJsonFeature[] =
+    root?.type === 'FeatureCollection' && Array.isArray(root.features)
+      ? (root.features as GeoJsonFeature[])
+      : root?.type === 'Feature'
+        ? [root as GeoJsonFeature]
+        : [];
+  if (features.length === 0) throw new GeoImportError('No features found in this GeoJSON file');
+
+  const label = typeof root.name === 'string' && root.name.trim() ? root.name.trim() : fallbackLabel;
+  const groups = new Map<string, Array<{ stop: ImportedStop; order: number }>>();
+  let skipped = 0;
+
+  features.forEach((feature, i) => {
+    const coords = feature.geometry?.type === 'Point' ? feature.geometry.coordinates : null;
+    const [lng, lat] = Array.isArray(coords) ? (coords as unknown[]).map(Number) : [];
+    if (lat == null || lng == null || !isValidCoordinate(lat, lng)) {
+      skipped += 1;
+      return;
+    }
+    const props = feature.properties ?? {};
+    const dayIndex = typeof props.dayIndex === 'number' ? `Day ${props.dayIndex + 1}` : '';
+    const group = stringProp(props, ['dayLabel', 'day']) || dayIndex || label;
+    const order = typeof props.order === 'number' ? props.order : i;
+    const stop = makeStop(
+      stringProp(props, ['name', 'title']),
+      lat,
+      lng,
+      stringProp(props, ['notes', 'description', 'desc']),
+      stringProp(props, ['address'])
+    );
+    groups.set(group, [...(groups.get(group) ?? []), { stop, order }]);
+  });
+
+  const days = Array.from(groups, ([groupLabel, entries]) => ({
+    label: groupLabel,
+    destinations: entries.sort((a, b) => a.order - b.order).map((e) => e.stop),
+  }));
+  const warnings =
+    skipped > 0 ? [`Skipped ${skipped} ${skipped === 1 ? 'feature that isn’t a point' : 'features that aren’t points'}.`] : [];
+  return { format: 'geojson', days, warnings };
+}
+
+/** Detects the format from the file name or contents. Browser-only (uses DOMParser). */
+export function parseGeoImport(text: string, fileName = ''): GeoImportResult {
+  const fallbackLabel = fileName.replace(/\.[^.]+$/, '') || 'Imported';
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const trimmed = text.trimStart();
+
+  let result: GeoImportResult;
+  if (extension === 'geojson' || trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new GeoImportError('The file is not valid JSON');
+    }
+    result = parseGeoJson(data, fallbackLabel);
+  } else {
+    const doc = parseXml(text);
+    const rootName = doc.documentElement.localName;
+    if (rootName === 'gpx') result = parseGpx(doc, fallbackLabel);
+    else if (rootName === 'kml') result = parseKml(doc, fallbackLabel);
+    else throw new GeoImportError('Unsupported file: expected GPX, KML or GeoJSON');
+  }
+
+  if (result.days.length === 0) throw new GeoImportError('No places with coordinates found in this file');
+  return result;
+}
@@ -0,0 +1,103 @@
+import type { Day, Trip } from '@/types/trip';
+import { hasValidLocation } from '@/lib/discover';
+import { distinctRouteColor } from '@/lib/route-colors';
+import { DEFAULT_TRAVEL_MODE } from '@/lib/travel-modes';
+
+type Position = [lng: number, lat: number];
+
+export type TripGeoJsonFeature =
+  | {
+      type: 'Feature';
+      id: string;
+      geometry: { type: 'Point'; coordinates: Position };
+      properties: {
+        kind: 'destination';
+        dayId: string;
+        dayIndex: number;
+        dayLabel: string;
+        /** Position within the day, counting stops without a location too. */
+        order: number;
+        name: string;
+        notes: string;
+        address: string | null;
+        placeId: string | null;
+        color: string;
+      };
+    }
+  | {
+      type: 'Feature';
+      id: string;
+      geometry: { type: 'LineString'; coordinates: Position[] };
+      properties: {
+        kind: 'route';
+        dayId: string;
+        dayIndex: number;
+        dayLabel: string;
+        travelMode: string;
+        color: string;
+      };
+    };
+
+export interface TripGeoJson {
+  type: 'FeatureCollection';
+  name: string;
+  features: TripGeoJsonFeature[];
+}
+
+/**
+ * A Point per located stop and, with `includeRoutes`, a straight LineString per day
+ * through its stops. Colors match the map's day colors; `dayIndex` is the day's place
+ * in the whole trip even when exporting a subset of days.
+ */
+export function buildTripGeoJson(
+  trip: Trip,
+  days: Day[] = trip.days,
+  options: { includeRoutes?: boolean } = {}
+): TripGeoJson {
+  const features: TripGeoJsonFeature[] = [];
+
+  for (const day of days) {
+    const dayIndex = trip.days.indexOf(day);
+    const color = distinctRouteColor(dayIndex);
+    const dayProps = { dayId: day.id, dayIndex, dayLabel: day.label };
+
+    day.destinations.forEach((destination, order) => {
+      if (!hasValidLocation(destination)) return;
+      features.push({
+        type: 'Feature',
+        id: destination.id,
+        geometry: { type: 'Point', coordinates: [destination.location.lng, destination.location.lat] },
+        properties: {
+          kind: 'destination',
+          ...dayProps,
+          order,
+          name: destination.name,
+          notes: destination.notes,
+          address: destination.address ?? null,
+          placeId: destination.placeId ?? null,
+          color,
+        },
+      });
+    });
+
+    const stops = day.destinations.filter(hasValidLocation);
+    if (options.includeRoutes && stops.length >= 2) {
+      features.push({
+        type: 'Feature',
+        id: `route-${day.id}`,
+        geometry: {
+          type: 'LineString',
+          coordinates: stops.map((d) => [d.location.lng, d.location.lat]),
+        },
+        properties: {
+          kind: 'route',
+          ...dayProps,
+          travelMode: day.travelMode ?? DEFAULT_TRAVEL_MODE,
+          color,
+        },
+      });
+    }
+  }
+
+  return { type: 'FeatureCollection', name: trip.name, features };
+}
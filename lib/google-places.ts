@@ -1,5 +1,8 @@
 import type { Coordinates } from '@/types/trip';
 
+/** Most free-text lookups one geocode request may ask for; clients send larger sets in batches. */
+export const MAX_GEOCODE_QUERIES = 25;
+
 export type GooglePlacesCanonicalPlace = {
   placeId: string;
   name: string;
@@ -0,0 +1,51 @@
+import type { Day, Destination, Trip } from '@/types/trip';
+import { hasValidLocation } from '@/lib/discover';
+import { tag } from '@/lib/export-utils';
+import { getDayDate } from '@/lib/trip-dates';
+
+function point(element: 'wpt' | 'rtept', destination: Destination, indent: string, type?: string) {
+  const { lat, lng } = destination.location!;
+  return [
+    `${indent}<${element} lat="${lat}" lon="${lng}">`,
+    ...tag('name', destination.name, `${indent}  `),
+    ...tag('cmt', destination.address, `${indent}  `),
+    ...tag('desc', destination.notes, `${indent}  `),
+    ...tag('type', type, `${indent}  `),
+    `${indent}</${element}>`,
+  ];
+}
+
+/**
+ * GPX 1.1 for the given days: every located stop as a waypoint, plus one route per
+ * day through its stops in order. Notes without a location are left out.
+ */
+export function buildTripGpx(trip: Trip, days: Day[] = trip.days): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Daily Dally" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    ...tag('name', trip.name, '    '),
+    `    <time>${new Date(trip.updatedAt).toISOString()}</time>`,
+    '  </metadata>',
+  ];
+
+  for (const day of days) {
+    for (const destination of day.destinations.filter(hasValidLocation)) {
+      lines.push(...point('wpt', destination, '  ', day.label));
+    }
+  }
+
+  for (const day of days) {
+    const stops = day.destinations.filter(hasValidLocation);
+    if (stops.length === 0) continue;
+    const date = getDayDate(trip, trip.days.indexOf(day));
+    lines.push('  <rte>', ...tag('name', day.label, '    '), ...tag('desc', date ?? undefined, '    '));
+    for (const destination of stops) {
+      lines.push(...point('rtept', destination, '    '));
+    }
+    lines.push('  </rte>');
+  }
+
+  lines.push('</gpx>', '');
+  return lines.join('\n');
+}
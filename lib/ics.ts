@@ -0,0 +1,139 @@
+import type { Day, Trip } from '@/types/trip';
+import { computeDayTimeline } from '@/lib/day-timeline';
+import { hasValidLocation } from '@/lib/discover';
+import { addDaysToIsoDate, getDayDate } from '@/lib/trip-dates';
+
+// Timed stops without a planned duration still need a visible block.
+const DEFAULT_EVENT_MINUTES = 30;
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Folds content lines to 75 octets as RFC 5545 requires. */
+function foldLine(line: string) {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(isoDate: string) {
+  return isoDate.replace(/-/g, '');
+}
+
+/** Floating local time: the same wall-clock time wherever the calendar is. */
+function formatLocalDateTime(isoDate: string, minutes: number) {
+  const dayOffset = Math.floor(minutes / (24 * 60));
+  const date = addDaysToIsoDate(isoDate, dayOffset) ?? isoDate;
+  const inDay = Math.round(minutes - dayOffset * 24 * 60);
+  const hh = String(Math.floor(inDay / 60)).padStart(2, '0');
+  const mm = String(inDay % 60).padStart(2, '0');
+  return `${formatDate(date)}T${hh}${mm}00`;
+}
+
+function formatUtc(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export interface IcsOptions {
+  /** Link back to the trip, added to every event. */
+  tripUrl?: string;
+}
+
+/**
+ * iCalendar feed for the given days: an all-day event per day listing its stops, plus
+ * an event per located stop, timed when the day's timeline gives it an arrival and
+ * all-day otherwise. Empty until the trip has a start date. UIDs are stable ids and
+ * SEQUENCE is the trip revision, so subscribed calendars update in place.
+ */
+export function buildTripIcs(trip: Trip, days: Day[] = trip.days, options: IcsOptions = {}): string {
+  const stamp = formatUtc(trip.updatedAt);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Daily Dally//Itinerary//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(trip.name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  const event = (uid: string, fields: string[]) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid}@daily-dally`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${trip.revision}`,
+      ...fields,
+      ...(options.tripUrl ? [`URL:${options.tripUrl}`] : []),
+      'END:VEVENT'
+    );
+  };
+
+  for (const day of days) {
+    const date = getDayDate(trip, trip.days.indexOf(day));
+    if (!date) continue;
+    const nextDate = addDaysToIsoDate(date, 1) ?? date;
+    const stops = day.destinations.filter(hasValidLocation);
+
+    event(`day-${day.id}`, [
+      `DTSTART;VALUE=DATE:${formatDate(date)}`,
+      `DTEND;VALUE=DATE:${formatDate(nextDate)}`,
+      `SUMMARY:${escapeText(`${trip.name}: ${day.label}`)}`,
+      ...(stops.length > 0
+        ? [`DESCRIPTION:${escapeText(stops.map((d, i) => `${i + 1}. ${d.name}`).join('\n'))}`]
+        : []),
+      'TRANSP:TRANSPARENT',
+    ]);
+
+    const timeline = computeDayTimeline(day.destinations);
+    for (const destination of stops) {
+      const stop = timeline.stops.get(destination.id);
+      const { lat, lng } = destination.location;
+      const when =
+        stop?.arrival != null
+          ? [
+              `DTSTART:${formatLocalDateTime(date, stop.arrival)}`,
+              `DTEND:${formatLocalDateTime(
+                date,
+                stop.departure != null && stop.departure > stop.arrival
+                  ? stop.departure
+                  : stop.arrival + DEFAULT_EVENT_MINUTES
+              )}`,
+            ]
+          : [`DTSTART;VALUE=DATE:${formatDate(date)}`, `DTEND;VALUE=DATE:${formatDate(nextDate)}`];
+
+      event(`stop-${destination.id}`, [
+        ...when,
+        `SUMMARY:${escapeText(destination.name)}`,
+        `LOCATION:${escapeText(destination.address || destination.name)}`,
+        `GEO:${lat};${lng}`,
+        ...(destination.notes ? [`DESCRIPTION:${escapeText(destination.notes)}`] : []),
+        ...(stop?.arrival != null ? [] : ['TRANSP:TRANSPARENT']),
+      ]);
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,87 @@
+import type { Day, Trip } from '@/types/trip';
+import { hasValidLocation } from '@/lib/discover';
+import { tag } from '@/lib/export-utils';
+import { distinctRouteColor } from '@/lib/route-colors';
+import { formatIsoDate, getDayDate } from '@/lib/trip-dates';
+
+export interface KmlOptions {
+  /** Adds a LineString per day through its stops in order (default true). */
+  includeRoutes?: boolean;
+}
+
+/** "#E41A1C" → KML's aabbggrr, e.g. "ff1c1ae4". */
+function toKmlColor(hex: string, alpha = 'ff') {
+  const n = hex.replace('#', '');
+  return `${alpha}${n.slice(4, 6)}${n.slice(2, 4)}${n.slice(0, 2)}`.toLowerCase();
+}
+
+/**
+ * KML 2.2 with one Folder per day. Placemarks and route lines use the day's map color
+ * (by its position in the whole trip, so a single-day export matches the app).
+ */
+export function buildTripKml(trip: Trip, days: Day[] = trip.days, options: KmlOptions = {}): string {
+  const includeRoutes = options.includeRoutes ?? true;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    ...tag('name', trip.name, '    '),
+  ];
+
+  for (const day of days) {
+    const dayIndex = trip.days.indexOf(day);
+    const color = distinctRouteColor(dayIndex);
+    lines.push(
+      `    <Style id="day-${dayIndex}">`,
+      '      <IconStyle>',
+      `        <color>${toKmlColor(color)}</color>`,
+      '        <Icon><href>https://maps.google.com/mapfiles/kml/paddle/wht-blank.png</href></Icon>',
+      '      </IconStyle>',
+      `      <LineStyle><color>${toKmlColor(color, 'cc')}</color><width>4</width></LineStyle>`,
+      '    </Style>'
+    );
+  }
+
+  for (const day of days) {
+    const dayIndex = trip.days.indexOf(day);
+    const date = getDayDate(trip, dayIndex);
+    const stops = day.destinations.filter(hasValidLocation);
+    lines.push(
+      '    <Folder>',
+      ...tag('name', day.label, '      '),
+      ...tag('description', date ? formatIsoDate(date, { year: true }) : undefined, '      ')
+    );
+
+    stops.forEach((destination, i) => {
+      const { lat, lng } = destination.location;
+      lines.push(
+        '      <Placemark>',
+        ...tag('name', `${i + 1}. ${destination.name}`, '        '),
+        ...tag('address', destination.address, '        '),
+        ...tag('description', destination.notes, '        '),
+        `        <styleUrl>#day-${dayIndex}</styleUrl>`,
+        `        <Point><coordinates>${lng},${lat},0</coordinates></Point>`,
+        '      </Placemark>'
+      );
+    });
+
+    if (includeRoutes && stops.length >= 2) {
+      const coordinates = stops.map((d) => `${d.location.lng},${d.location.lat},0`).join(' ');
+      lines.push(
+        '      <Placemark>',
+        ...tag('name', `${day.label} route`, '        '),
+        `        <styleUrl>#day-${dayIndex}</styleUrl>`,
+        '        <LineString>',
+        '          <tessellate>1</tessellate>',
+        `          <coordinates>${coordinates}</coordinates>`,
+        '        </LineString>',
+        '      </Placemark>'
+      );
+    }
+
+    lines.push('    </Folder>');
+  }
+
+  lines.push('  </Document>', '</kml>', '');
+  return lines.join('\n');
+}
@@ -1,35 +1,43 @@
-import type { Trip } from '@/types/trip';
-import { Redis } from '@upstash/redis';
+import { createHash } from 'node:crypto';
+import type { Trip, TripHistorySummary, TripPresence, TripShareLink } from '@/types/trip';
+import type { DirectionsSegmentResult } from '@/lib/directions';
 import { generateId } from '@/lib/ulid';
+import { memoryCacheGet, memoryCacheSet } from '@/lib/memory-cache';
+import {
+  hashPassphrase,
+  isValidUnlockProof,
+  TripLinkError,
+  unlockProof,
+  verifyPassphrase,
+} from '@/lib/link-protection';
+import { getStorage, type StorageWrite } from '@/lib/storage';
+import { summarizeTripChanges } from '@/lib/trip-diff';
+import { parseTrip } from '@/lib/trip-schema';
 
 const TRIP_PREFIX = 'trip:';
+const TRIP_REVISION_PREFIX = 'triprev:';
 const CAP_VIEW_PREFIX = 'cap:view:';
 const CAP_EDIT_PREFIX = 'cap:edit:';
 const TRIP_CAPS_PREFIX = 'tripcaps:';
+const CAP_USED_PREFIX = 'capused:';
+const PRESENCE_PREFIX = 'presence:';
+const TRIP_HISTORY_PREFIX = 'triphistory:';
+const TRIP_SNAPSHOT_PREFIX = 'tripsnapshot:';
+const DIRECTIONS_PREFIX = 'directions:';
 
-let redis: Redis | null = null;
-
-function getKvClient(): Redis | null {
-  if (redis) return redis;
-
-  if (
-    process.env.UPSTASH_REDIS_REST_URL &&
-    process.env.UPSTASH_REDIS_REST_TOKEN
-  ) {
-    try {
-      redis = new Redis({
-        url: process.env.UPSTASH_REDIS_REST_URL,
-        token: process.env.UPSTASH_REDIS_REST_TOKEN,
-      });
-      return redis;
-    } catch (error) {
-      redis = null;
-      return null;
-    }
-  }
+// Snapshots are whole trips, so keep the history bounded.
+const MAX_HISTORY_ENTRIES = 50;
 
-  return null;
-}
+// Tabs heartbeat well within this window; anything older has closed or gone to sleep.
+const PRESENCE_STALE_MS = 45_000;
+
+// Roads change slowly; a month-old route is still a good route.
+const DIRECTIONS_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Every API call resolves its token; only record a link's use this often.
+const LAST_USED_RESOLUTION_MS = 10 * 60_000;
+
+export const MAX_SHARE_LINKS = 50;
 
 export type TripAccessRole = 'view' | 'edit';
 
@@ -42,13 +50,50 @@ interface CapabilityRecord {
    * read-only link without revealing the edit token.
    */
   viewToken?: string;
+  /** Set on named share links ("Mom", "Airbnb host"); the default links have none. */
+  label?: string;
+  /** Named view links can expire and/or need a passphrase (see `lib/link-protection.ts`). */
+  expiresAt?: string;
+  passwordHash?: string;
 }
 
 interface TripCapabilitiesRecord {
   tripId: string;
+  /** The default links every trip is created with. */
   viewToken: string;
   editToken: string;
   createdAt: string;
+  /** Named share links; labels live on each link's capability record. */
+  links?: Array<{ token: string; role: TripAccessRole }>;
+}
+
+function capabilityKey(role: TripAccessRole, token: string) {
+  return `${role === 'edit' ? CAP_EDIT_PREFIX : CAP_VIEW_PREFIX}${token}`;
+}
+
+function isExpired(cap: CapabilityRecord) {
+  return cap.expiresAt != null && Date.parse(cap.expiresAt) <= Date.now();
+}
+
+/** Throws `TripLinkError` for an expired link, or a protected one `proof` doesn't unlock. */
+function assertCapabilityUsable(token: string, cap: CapabilityRecord, proof: string | undefined) {
+  if (isExpired(cap)) throw new TripLinkError('link_expired');
+  if (cap.passwordHash && !(proof && isValidUnlockProof(token, cap.passwordHash, proof))) {
+    throw new TripLinkError('passphrase_required');
+  }
+}
+
+/**
+ * Records that a link was used, at most every `LAST_USED_RESOLUTION_MS` per server
+ * instance. The time lives under its own key: rewriting the capability record here could
+ * race a revoke or rotation and bring the link back. Stored as epoch ms; a bare string
+ * wouldn't survive the Upstash client's JSON round trip.
+ */
+async function touchCapability(token: string) {
+  const key = `${CAP_USED_PREFIX}${token}`;
+  if (memoryCacheGet<boolean>(key)) return;
+  memoryCacheSet(key, true, LAST_USED_RESOLUTION_MS);
+  await setJson(key, Date.now());
 }
 
 export interface TripAccess {
@@ -61,26 +106,23 @@ export interface TripAccess {
 }
 
 async function getJson<T>(key: string): Promise<T | null> {
-  const client = getKvClient();
-  if (!client) return null;
+  const storage = getStorage();
+  if (!storage) return null;
 
   try {
-    const data = await client.get(key);
-    if (!data) return null;
-    if (typeof data === 'string') return JSON.parse(data) as T;
-    return data as T;
+    return await storage.get<T>(key);
   } catch (error) {
     console.error('Error getting key:', key, error);
     return null;
   }
 }
 
-async function setJson(key: string, value: unknown): Promise<boolean> {
-  const client = getKvClient();
-  if (!client) return false;
+async function setJson(key: string, value: unknown, ttlSeconds?: number): Promise<boolean> {
+  const storage = getStorage();
+  if (!storage) return false;
 
   try {
-    await client.set(key, JSON.stringify(value));
+    await storage.write([{ type: 'set', key, value, ttlSeconds }]);
     return true;
   } catch (error) {
     console.error('Error setting key:', key, error);
@@ -88,34 +130,207 @@ async function setJson(key: string, value: unknown): Promise<boolean> {
   }
 }
 
+export interface TripHistoryEntry extends TripHistorySummary {
+  trip: Trip;
+}
+
+/** The history list holds summaries so listing stays cheap; each revision's trip lives here. */
+function snapshotKey(tripId: string, revision: number) {
+  return `${TRIP_SNAPSHOT_PREFIX}${tripId}:${revision}`;
+}
+
+export interface SaveTripOptions {
+  /** The copy being replaced; used to summarize the change in history. */
+  previous?: Trip;
+  /** Extra leading history line, e.g. "Restored revision 12". */
+  note?: string;
+}
+
+export type SaveTripResult =
+  | { status: 'saved'; trip: Trip }
+  | { status: 'conflict'; current: Trip }
+  | { status: 'not_found' }
+  | { status: 'error' };
+
 export async function getTrip(tripId: string): Promise<Trip | null> {
-  const client = getKvClient();
-  if (!client) return null;
+  const storage = getStorage();
+  if (!storage) return null;
 
   try {
-    const data = await client.get(`${TRIP_PREFIX}${tripId}`);
+    const data = await storage.get<unknown>(`${TRIP_PREFIX}${tripId}`);
     if (!data) return null;
 
-    if (typeof data === 'string') {
-      return JSON.parse(data) as Trip;
+    const parsed = parseTrip(data);
+    if (!parsed.success) {
+      console.error('Stored trip failed validation:', tripId, parsed.error.issues);
+      return null;
     }
-    return data as Trip;
+    return parsed.data;
   } catch (error) {
     console.error('Error getting trip:', error);
     return null;
   }
 }
 
-export async function saveTrip(trip: Trip): Promise<boolean> {
-  return await setJson(`${TRIP_PREFIX}${trip.id}`, trip);
+/**
+ * The stored trip's revision without loading the trip, for cheap change polling. Null for
+ * a missing trip, or one not saved since this key was introduced.
+ */
+export async function getTripRevision(tripId: string): Promise<number | null> {
+  return getJson<number>(`${TRIP_REVISION_PREFIX}${tripId}`);
+}
+
+/**
+ * Validates and saves a trip, and appends a snapshot to its (bounded, append-only)
+ * revision history. Invalid trips are never written.
+ */
+export async function saveTrip(input: Trip, options: SaveTripOptions = {}): Promise<boolean> {
+  const storage = getStorage();
+  if (!storage) return false;
+
+  const parsed = parseTrip(input);
+  if (!parsed.success) {
+    console.error('Refusing to save invalid trip:', input.id, parsed.error.issues);
+    return false;
+  }
+  const trip = parsed.data;
+
+  const changes = options.previous ? summarizeTripChanges(options.previous, trip) : ['Created trip'];
+  const summary: TripHistorySummary = {
+    revision: trip.revision,
+    savedAt: trip.updatedAt,
+    changes: options.note ? [options.note, ...changes] : changes,
+    dayCount: trip.days.length,
+    destinationCount: trip.days.reduce((n, d) => n + d.destinations.length, 0),
+  };
+  const historyKey = `${TRIP_HISTORY_PREFIX}${trip.id}`;
+
+  try {
+    // The entries this push trims off the list take their snapshots with them.
+    const history = await storage.lrange<TripHistorySummary>(historyKey);
+    const dropped = history
+      .slice(MAX_HISTORY_ENTRIES - 1)
+      .filter((item) => item.revision !== trip.revision)
+      .map((item) => snapshotKey(trip.id, item.revision));
+
+    await storage.write([
+      { type: 'set', key: `${TRIP_PREFIX}${trip.id}`, value: trip },
+      { type: 'set', key: `${TRIP_REVISION_PREFIX}${trip.id}`, value: trip.revision },
+      { type: 'set', key: snapshotKey(trip.id, trip.revision), value: trip },
+      { type: 'lpush', key: historyKey, value: summary, maxLength: MAX_HISTORY_ENTRIES },
+      ...(dropped.length > 0 ? [{ type: 'del' as const, keys: dropped }] : []),
+    ]);
+    return true;
+  } catch (error) {
+    console.error('Error saving trip:', trip.id, error);
+    return false;
+  }
+}
+
+/** Newest first, without the snapshots; see `getTripHistoryEntry`. */
+export async function getTripHistory(tripId: string): Promise<TripHistorySummary[] | null> {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  try {
+    return await storage.lrange<TripHistorySummary>(`${TRIP_HISTORY_PREFIX}${tripId}`);
+  } catch (error) {
+    console.error('Error getting trip history:', error);
+    return null;
+  }
+}
+
+/** One revision with its snapshot, or null if it has aged out or can't be read. */
+export async function getTripHistoryEntry(
+  tripId: string,
+  revision: number
+): Promise<TripHistoryEntry | null> {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  try {
+    const items = await storage.lrange<TripHistorySummary>(`${TRIP_HISTORY_PREFIX}${tripId}`);
+    const item = items.find((entry) => entry.revision === revision);
+    if (!item) return null;
+
+    const snapshot = await storage.get<unknown>(snapshotKey(tripId, revision));
+    // Snapshots can predate the current schema; migrate them like live trips.
+    const parsed = parseTrip(snapshot);
+    if (!parsed.success) return null;
+    return { ...item, trip: parsed.data };
+  } catch (error) {
+    console.error('Error getting trip revision:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves `trip` only if the stored copy is still at `baseRevision`, bumping the revision
+ * and `updatedAt`. On a stale write the current stored trip is returned instead so the
+ * caller can hand it back to the client.
+ *
+ * NOTE: read-compare-write is not atomic; two saves landing in the same few milliseconds
+ * can still race. That window is far smaller than the human-scale one this guards against.
+ */
+export async function saveTripIfRevision(
+  trip: Trip,
+  baseRevision: number,
+  options: Pick<SaveTripOptions, 'note'> = {}
+): Promise<SaveTripResult> {
+  const current = await getTrip(trip.id);
+  if (!current) return { status: 'not_found' };
+  if (current.revision !== baseRevision) {
+    return { status: 'conflict', current };
+  }
+
+  const next: Trip = {
+    ...trip,
+    revision: current.revision + 1,
+    updatedAt: new Date().toISOString(),
+  };
+  const success = await saveTrip(next, { previous: current, note: options.note });
+  return success ? { status: 'saved', trip: next } : { status: 'error' };
+}
+
+/**
+ * Applies `mutate` to the latest stored copy of a trip and saves it, re-reading and
+ * re-applying when another save lands in between. Errors thrown by `mutate` propagate.
+ */
+export async function mutateTrip(
+  tripId: string,
+  mutate: (current: Trip) => Trip,
+  options: Pick<SaveTripOptions, 'note'> & { maxAttempts?: number } = {}
+): Promise<SaveTripResult> {
+  const maxAttempts = options.maxAttempts ?? 3;
+  let current = await getTrip(tripId);
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (!current) return { status: 'not_found' };
+    const result = await saveTripIfRevision(mutate(current), current.revision, {
+      note: options.note,
+    });
+    if (result.status !== 'conflict') return result;
+    current = result.current;
+  }
+  return { status: 'error' };
 }
 
 export async function deleteTrip(tripId: string): Promise<boolean> {
-  const client = getKvClient();
-  if (!client) return false;
+  const storage = getStorage();
+  if (!storage) return false;
 
   try {
-    await client.del(`${TRIP_PREFIX}${tripId}`);
+    const history = await storage.lrange<TripHistorySummary>(`${TRIP_HISTORY_PREFIX}${tripId}`);
+    await storage.write([
+      {
+        type: 'del',
+        keys: [
+          `${TRIP_PREFIX}${tripId}`,
+          `${TRIP_REVISION_PREFIX}${tripId}`,
+          `${TRIP_HISTORY_PREFIX}${tripId}`,
+          ...history.map((item) => snapshotKey(tripId, item.revision)),
+        ],
+      },
+    ]);
     return true;
   } catch (error) {
     console.error('Error deleting trip:', error);
@@ -127,8 +342,8 @@ export async function createTripCapabilityLinks(tripId: string): Promise<{
   viewToken: string;
   editToken: string;
 } | null> {
-  const client = getKvClient();
-  if (!client) return null;
+  const storage = getStorage();
+  if (!storage) return null;
 
   const now = new Date().toISOString();
   const viewToken = generateId();
@@ -155,11 +370,11 @@ export async function createTripCapabilityLinks(tripId: string): Promise<{
   };
 
   try {
-    await client.mset({
-      [`${CAP_VIEW_PREFIX}${viewToken}`]: JSON.stringify(viewRecord),
-      [`${CAP_EDIT_PREFIX}${editToken}`]: JSON.stringify(editRecord),
-      [`${TRIP_CAPS_PREFIX}${tripId}`]: JSON.stringify(caps),
-    });
+    await storage.write([
+      { type: 'set', key: `${CAP_VIEW_PREFIX}${viewToken}`, value: viewRecord },
+      { type: 'set', key: `${CAP_EDIT_PREFIX}${editToken}`, value: editRecord },
+      { type: 'set', key: `${TRIP_CAPS_PREFIX}${tripId}`, value: caps },
+    ]);
     return { viewToken, editToken };
   } catch (error) {
     console.error('Error creating capability links:', error);
@@ -167,12 +382,22 @@ export async function createTripCapabilityLinks(tripId: string): Promise<{
   }
 }
 
-export async function getTripAccessByToken(token: string): Promise<TripAccess | null> {
+/**
+ * Resolves a link to its trip and role, or null if it doesn't exist. Throws
+ * `TripLinkError` when the link exists but is expired, or is protected and `proof` (the
+ * unlock cookie's value) doesn't match.
+ */
+export async function getTripAccessByToken(
+  token: string,
+  proof?: string
+): Promise<TripAccess | null> {
   // 1) Edit capability token
   const editCap = await getJson<CapabilityRecord>(`${CAP_EDIT_PREFIX}${token}`);
   if (editCap && editCap.tripId) {
+    assertCapabilityUsable(token, editCap, proof);
     const trip = await getTrip(editCap.tripId);
     if (!trip) return null;
+    await touchCapability(token);
     return {
       trip,
       role: 'edit',
@@ -183,8 +408,10 @@ export async function getTripAccessByToken(token: string): Promise<TripAccess |
   // 2) View capability token
   const viewCap = await getJson<CapabilityRecord>(`${CAP_VIEW_PREFIX}${token}`);
   if (viewCap && viewCap.tripId) {
+    assertCapabilityUsable(token, viewCap, proof);
     const trip = await getTrip(viewCap.tripId);
     if (!trip) return null;
+    await touchCapability(token);
     return {
       trip,
       role: 'view',
@@ -195,23 +422,235 @@ export async function getTripAccessByToken(token: string): Promise<TripAccess |
   return null;
 }
 
+/**
+ * Whether a link `getTripAccessByToken` resolved earlier still grants `role` on the trip,
+ * i.e. hasn't been revoked, reset, expired or re-locked since. A single read, for
+ * connections that stay open.
+ */
+export async function isTripLinkStillValid(
+  tripId: string,
+  token: string,
+  role: TripAccessRole,
+  proof?: string
+): Promise<boolean> {
+  const cap = await getJson<CapabilityRecord>(capabilityKey(role, token));
+  if (cap?.tripId !== tripId) return false;
+  try {
+    assertCapabilityUsable(token, cap, proof);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export async function getTripCapabilitiesByTripId(
   tripId: string
 ): Promise<TripCapabilitiesRecord | null> {
   return await getJson<TripCapabilitiesRecord>(`${TRIP_CAPS_PREFIX}${tripId}`);
 }
 
+/**
+ * Replaces a trip's default view or edit token. The old `cap:` key is deleted in the same
+ * write, so anyone holding the old link loses access; edit capabilities' copies of the
+ * view token are kept in step. Named links are untouched. Returns the default tokens.
+ */
+export async function rotateTripCapability(
+  tripId: string,
+  role: TripAccessRole
+): Promise<{ viewToken: string; editToken: string } | null> {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  try {
+    const caps = await getTripCapabilitiesByTripId(tripId);
+    if (!caps) return null;
+
+    const now = new Date().toISOString();
+    const next: TripCapabilitiesRecord = {
+      ...caps,
+      viewToken: role === 'view' ? generateId() : caps.viewToken,
+      editToken: role === 'edit' ? generateId() : caps.editToken,
+    };
+
+    const writes: StorageWrite[] = [];
+    if (role === 'view') {
+      const viewRecord: CapabilityRecord = { tripId, role: 'view', createdAt: now };
+      writes.push(
+        { type: 'del', keys: [`${CAP_VIEW_PREFIX}${caps.viewToken}`, `${CAP_USED_PREFIX}${caps.viewToken}`] },
+        { type: 'set', key: `${CAP_VIEW_PREFIX}${next.viewToken}`, value: viewRecord }
+      );
+      // Every edit link, named ones included, hands out the default view link.
+      const editTokens = [
+        caps.editToken,
+        ...(caps.links ?? []).filter((l) => l.role === 'edit').map((l) => l.token),
+      ];
+      for (const token of editTokens) {
+        const record = await getJson<CapabilityRecord>(capabilityKey('edit', token));
+        if (record) {
+          writes.push({
+            type: 'set',
+            key: capabilityKey('edit', token),
+            value: { ...record, viewToken: next.viewToken },
+          });
+        }
+      }
+    } else {
+      const editRecord: CapabilityRecord = {
+        tripId,
+        role: 'edit',
+        createdAt: now,
+        viewToken: next.viewToken,
+      };
+      writes.push(
+        { type: 'del', keys: [`${CAP_EDIT_PREFIX}${caps.editToken}`, `${CAP_USED_PREFIX}${caps.editToken}`] },
+        { type: 'set', key: `${CAP_EDIT_PREFIX}${next.editToken}`, value: editRecord }
+      );
+    }
+    writes.push({ type: 'set', key: `${TRIP_CAPS_PREFIX}${tripId}`, value: next });
+
+    await storage.write(writes);
+    return { viewToken: next.viewToken, editToken: next.editToken };
+  } catch (error) {
+    console.error('Error rotating capability:', error);
+    return null;
+  }
+}
+
+function toIsoOrNull(ms: number | null) {
+  return typeof ms === 'number' ? new Date(ms).toISOString() : null;
+}
+
+/** Every link to the trip, default links first, then named links oldest first. */
+export async function listTripShareLinks(tripId: string): Promise<TripShareLink[] | null> {
+  const caps = await getTripCapabilitiesByTripId(tripId);
+  if (!caps) return null;
+
+  const entries = [
+    { token: caps.viewToken, role: 'view' as const, isDefault: true },
+    { token: caps.editToken, role: 'edit' as const, isDefault: true },
+    ...(caps.links ?? []).map((link) => ({ ...link, isDefault: false })),
+  ];
+  const links: TripShareLink[] = [];
+  for (const entry of entries) {
+    const record = await getJson<CapabilityRecord>(capabilityKey(entry.role, entry.token));
+    if (!record) continue;
+    links.push({
+      token: entry.token,
+      role: entry.role,
+      label: record.label ?? null,
+      isDefault: entry.isDefault,
+      createdAt: record.createdAt,
+      lastUsedAt: toIsoOrNull(await getJson<number>(`${CAP_USED_PREFIX}${entry.token}`)),
+      expiresAt: record.expiresAt ?? null,
+      hasPassphrase: record.passwordHash != null,
+    });
+  }
+  return links;
+}
+
+export async function createTripShareLink(
+  tripId: string,
+  input: { role: TripAccessRole; label: string; expiresAt?: string; passphrase?: string }
+): Promise<TripShareLink | null> {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  try {
+    const caps = await getTripCapabilitiesByTripId(tripId);
+    if (!caps) return null;
+
+    const token = generateId();
+    const record: CapabilityRecord = {
+      tripId,
+      role: input.role,
+      createdAt: new Date().toISOString(),
+      label: input.label,
+      ...(input.role === 'edit' ? { viewToken: caps.viewToken } : {}),
+      ...(input.expiresAt ? { expiresAt: input.expiresAt } : {}),
+      ...(input.passphrase ? { passwordHash: await hashPassphrase(input.passphrase) } : {}),
+    };
+    const next: TripCapabilitiesRecord = {
+      ...caps,
+      links: [...(caps.links ?? []), { token, role: input.role }],
+    };
+
+    await storage.write([
+      { type: 'set', key: capabilityKey(input.role, token), value: record },
+      { type: 'set', key: `${TRIP_CAPS_PREFIX}${tripId}`, value: next },
+    ]);
+    return {
+      token,
+      role: input.role,
+      label: input.label,
+      isDefault: false,
+      createdAt: record.createdAt,
+      lastUsedAt: null,
+      expiresAt: record.expiresAt ?? null,
+      hasPassphrase: record.passwordHash != null,
+    };
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return null;
+  }
+}
+
+/**
+ * Checks a protected link's passphrase. Returns the cookie value that unlocks the link
+ * (see `unlockProof`) and when it should expire, or null for a wrong passphrase or a
+ * link that has none. Throws `TripLinkError` if the link has expired.
+ */
+export async function unlockTripLink(
+  token: string,
+  passphrase: string
+): Promise<{ proof: string; expiresAt: string | null } | null> {
+  const cap =
+    (await getJson<CapabilityRecord>(`${CAP_VIEW_PREFIX}${token}`)) ??
+    (await getJson<CapabilityRecord>(`${CAP_EDIT_PREFIX}${token}`));
+  if (cap && isExpired(cap)) throw new TripLinkError('link_expired');
+  if (!cap?.passwordHash) return null;
+  if (!(await verifyPassphrase(passphrase, cap.passwordHash))) return null;
+  return { proof: unlockProof(token, cap.passwordHash), expiresAt: cap.expiresAt ?? null };
+}
+
+/** Deletes a named link; the default links can only be rotated. */
+export async function revokeTripShareLink(tripId: string, token: string): Promise<boolean> {
+  const storage = getStorage();
+  if (!storage) return false;
+
+  try {
+    const caps = await getTripCapabilitiesByTripId(tripId);
+    const link = caps?.links?.find((l) => l.token === token);
+    if (!caps || !link) return false;
+
+    const next: TripCapabilitiesRecord = {
+      ...caps,
+      links: caps.links!.filter((l) => l.token !== token),
+    };
+    await storage.write([
+      { type: 'del', keys: [capabilityKey(link.role, token), `${CAP_USED_PREFIX}${token}`] },
+      { type: 'set', key: `${TRIP_CAPS_PREFIX}${tripId}`, value: next },
+    ]);
+    return true;
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return false;
+  }
+}
+
 export async function deleteCapabilitiesForTrip(tripId: string): Promise<boolean> {
-  const client = getKvClient();
-  if (!client) return false;
+  const storage = getStorage();
+  if (!storage) return false;
 
   try {
     const caps = await getTripCapabilitiesByTripId(tripId);
     const keys: string[] = [`${TRIP_CAPS_PREFIX}${tripId}`];
-    if (caps?.viewToken) keys.push(`${CAP_VIEW_PREFIX}${caps.viewToken}`);
-    if (caps?.editToken) keys.push(`${CAP_EDIT_PREFIX}${caps.editToken}`);
+    if (caps?.viewToken) keys.push(`${CAP_VIEW_PREFIX}${caps.viewToken}`, `${CAP_USED_PREFIX}${caps.viewToken}`);
+    if (caps?.editToken) keys.push(`${CAP_EDIT_PREFIX}${caps.editToken}`, `${CAP_USED_PREFIX}${caps.editToken}`);
+    caps?.links?.forEach((link) =>
+      keys.push(capabilityKey(link.role, link.token), `${CAP_USED_PREFIX}${link.token}`)
+    );
     if (keys.length > 0) {
-      await client.del(...keys);
+      await storage.write([{ type: 'del', keys }]);
     }
     return true;
   } catch (error) {
@@ -219,3 +658,45 @@ export async function deleteCapabilitiesForTrip(tripId: string): Promise<boolean
     return false;
   }
 }
+
+function freshPresence(entries: TripPresence[] | null): TripPresence[] {
+  const cutoff = Date.now() - PRESENCE_STALE_MS;
+  return (entries ?? []).filter((p) => Date.parse(p.updatedAt) >= cutoff);
+}
+
+export async function getTripPresence(tripId: string): Promise<TripPresence[]> {
+  return freshPresence(await getJson<TripPresence[]>(`${PRESENCE_PREFIX}${tripId}`));
+}
+
+/**
+ * Records (or, when `leaving`, removes) one tab's presence. Presence is
+ * best-effort: concurrent heartbeats can drop each other, and the next heartbeat repairs it.
+ */
+export async function setTripPresence(
+  tripId: string,
+  presence: Omit<TripPresence, 'updatedAt'>,
+  leaving = false
+): Promise<TripPresence[]> {
+  const others = (await getTripPresence(tripId)).filter((p) => p.clientId !== presence.clientId);
+  const next = leaving
+    ? others
+    : [...others, { ...presence, updatedAt: new Date().toISOString() }];
+  await setJson(`${PRESENCE_PREFIX}${tripId}`, next, Math.ceil((PRESENCE_STALE_MS * 2) / 1000));
+  return next;
+}
+
+function directionsKey(segmentKey: string) {
+  return `${DIRECTIONS_PREFIX}${createHash('sha256').update(segmentKey).digest('hex')}`;
+}
+
+/** Cached route geometry shared across trips, keyed by `directionsSegmentKey`. */
+export async function getCachedDirections(segmentKey: string): Promise<DirectionsSegmentResult | null> {
+  return getJson<DirectionsSegmentResult>(directionsKey(segmentKey));
+}
+
+export async function setCachedDirections(
+  segmentKey: string,
+  result: DirectionsSegmentResult
+): Promise<boolean> {
+  return setJson(directionsKey(segmentKey), result, DIRECTIONS_TTL_SECONDS);
+}
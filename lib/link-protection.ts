@@ -0,0 +1,77 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { NextResponse, type NextRequest } from 'next/server';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+export type TripLinkErrorCode = 'passphrase_required' | 'passphrase_invalid' | 'link_expired';
+
+/**
+ * Thrown by `getTripAccessByToken` for a link that exists but can't be used right now.
+ * Routes answer with `{ error, code }` and `status` so the page can tell "locked" from
+ * "expired" from "not found".
+ */
+export class TripLinkError extends Error {
+  name = 'TripLinkError';
+  readonly status: 401 | 410;
+
+  constructor(readonly code: TripLinkErrorCode) {
+    super(
+      code === 'link_expired'
+        ? 'This link has expired'
+        : code === 'passphrase_invalid'
+          ? 'Incorrect passphrase'
+          : 'This link needs a passphrase'
+    );
+    this.status = code === 'link_expired' ? 410 : 401;
+  }
+}
+
+export function linkErrorResponse(error: TripLinkError) {
+  return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+}
+
+/** `scrypt$<salt>$<hash>`, hex-encoded. */
+export async function hashPassphrase(passphrase: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(passphrase, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassphrase(passphrase: string, passwordHash: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(passphrase, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function unlockCookieName(token: string) {
+  return `dd_unlock_${token}`;
+}
+
+/**
+ * Cookie value proving the passphrase was entered. Derived from the stored hash, which
+ * never leaves the server, so it needs no signing secret and stops working if the
+ * passphrase changes.
+ */
+export function unlockProof(token: string, passwordHash: string) {
+  return createHash('sha256').update(`${token}:${passwordHash}`).digest('hex');
+}
+
+/** The unlock cookie the browser sent for `token`, if any. */
+export function readUnlockProof(request: NextRequest, token: string) {
+  return request.cookies.get(unlockCookieName(token))?.value;
+}
+
+export function isValidUnlockProof(token: string, passwordHash: string, proof: string) {
+  const expected = Buffer.from(unlockProof(token, passwordHash));
+  const actual = Buffer.from(proof);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,52 @@
+import type { Day, Trip } from '@/types/trip';
+import { getGoogleMapsPlaceUrl } from '@/lib/navigation';
+import { formatIsoDate, formatTripDateRange, getDayDate } from '@/lib/trip-dates';
+
+/** Keeps names from turning into emphasis or breaking out of link text. */
+function escapeMarkdown(value: string) {
+  return value.replace(/([\\`*_[\]<>#])/g, '\\$1');
+}
+
+/**
+ * The itinerary as Markdown that still reads well as plain text when pasted into chat:
+ * a heading per day and a numbered list of stops. Notes are kept verbatim, indented
+ * under their stop.
+ */
+export function buildTripMarkdown(trip: Trip, days: Day[] = trip.days): string {
+  const lines = [`# ${escapeMarkdown(trip.name)}`];
+  const dateRange = days.length === trip.days.length ? formatTripDateRange(trip) : null;
+  if (dateRange) lines.push('', `_${dateRange}_`);
+
+  for (const day of days) {
+    const date = getDayDate(trip, trip.days.indexOf(day));
+    lines.push('', `## ${escapeMarkdown(day.label)}${date ? ` · ${formatIsoDate(date)}` : ''}`, '');
+
+    if (day.destinations.length === 0) {
+      lines.push('_Nothing planned yet._');
+      continue;
+    }
+
+    day.destinations.forEach((destination, i) => {
+      const marker = `${i + 1}. `;
+      const indent = ' '.repeat(marker.length);
+      const mapsUrl = getGoogleMapsPlaceUrl(destination);
+      const name = `**${escapeMarkdown(destination.name)}**`;
+      const title = `${marker}${mapsUrl ? `[${name}](${mapsUrl})` : name}`;
+
+      if (destination.address) {
+        // Two trailing spaces: a Markdown line break that's invisible as plain text.
+        lines.push(`${title}  `, `${indent}${escapeMarkdown(destination.address)}`);
+      } else {
+        lines.push(title);
+      }
+
+      const notes = destination.notes.trim();
+      if (notes) {
+        lines.push('');
+        notes.split(/\r?\n/).forEach((line) => lines.push(line ? `${indent}${line}` : ''));
+      }
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+}
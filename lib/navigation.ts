@@ -8,3 +8,18 @@ export function getGoogleMapsNavigationUrl(destination: Destination): string | n
   // Use coordinates for reliable navigation
   return `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`;
 }
+
+/** Opens the place itself (reviews, hours) when we have its Google place id. */
+export function getGoogleMapsPlaceUrl(destination: Destination): string | null {
+  const url = new URL('https://www.google.com/maps/search/');
+  url.searchParams.set('api', '1');
+  if (destination.placeId) {
+    url.searchParams.set('query', destination.name);
+    url.searchParams.set('query_place_id', destination.placeId);
+  } else if (destination.location) {
+    url.searchParams.set('query', `${destination.location.lat},${destination.location.lng}`);
+  } else {
+    return null;
+  }
+  return url.toString();
+}
@@ -0,0 +1,138 @@
+import type { Destination } from '@/types/trip';
+import { hasValidLocation, haversineKm } from '@/lib/discover';
+
+export interface OptimizeOrderOptions {
+  /** Keep the first located stop first (e.g. starting from the hotel). */
+  pinFirst?: boolean;
+  /** Keep the last located stop last. */
+  pinLast?: boolean;
+}
+
+export interface OptimizedOrder {
+  destinations: Destination[];
+  beforeKm: number;
+  afterKm: number;
+}
+
+/** Straight-line length of the path through the day's located stops, in order. */
+export function pathLengthKm(destinations: Destination[]): number {
+  const located = destinations.filter(hasValidLocation);
+  let total = 0;
+  for (let i = 1; i < located.length; i++) {
+    total += haversineKm(located[i - 1]!.location, located[i]!.location);
+  }
+  return total;
+}
+
+function pathCost(path: number[], dist: number[][]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) total += dist[path[i - 1]!]![path[i]!]!;
+  return total;
+}
+
+function nearestNeighbourPath(start: number, candidates: number[], dist: number[][]): number[] {
+  const path = [start];
+  const remaining = new Set(candidates.filter((i) => i !== start));
+  while (remaining.size > 0) {
+    const last = path[path.length - 1]!;
+    let best = -1;
+    for (const i of remaining) {
+      if (best === -1 || dist[last]![i]! < dist[last]![best]!) best = i;
+    }
+    path.push(best);
+    remaining.delete(best);
+  }
+  return path;
+}
+
+/**
+ * Repeatedly reverses sub-paths while that shortens the path; pinned ends never move.
+ * Distances are symmetric, so a reversal only changes the two edges at its ends.
+ */
+function twoOpt(path: number[], dist: number[][], pinFirst: boolean, pinLast: boolean): number[] {
+  const best = [...path];
+  const last = best.length - 1;
+  const lo = pinFirst ? 1 : 0;
+  const hi = pinLast ? last - 1 : last;
+  const edge = (a: number, b: number) => dist[best[a]!]![best[b]!]!;
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = lo; i < hi; i++) {
+      for (let k = i + 1; k <= hi; k++) {
+        let delta = 0;
+        if (i > 0) delta += edge(i - 1, k) - edge(i - 1, i);
+        if (k < last) delta += edge(i, k + 1) - edge(k, k + 1);
+        if (delta < -1e-9) {
+          for (let a = i, b = k; a < b; a++, b--) [best[a], best[b]] = [best[b]!, best[a]!];
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Reorders a day's stops to shorten the (open) path through them, using straight-line
+ * distances: nearest-neighbour from every allowed start, then 2-opt on the shortest of
+ * those. Good, not provably optimal. Notes without a location stay attached after the
+ * stop they followed.
+ */
+export function optimizeStopOrder(
+  destinations: Destination[],
+  options: OptimizeOrderOptions = {}
+): OptimizedOrder {
+  const located = destinations.filter(hasValidLocation);
+  const beforeKm = pathLengthKm(destinations);
+  if (located.length < 3) return { destinations, beforeKm, afterKm: beforeKm };
+
+  const n = located.length;
+  const dist = located.map((a) => located.map((b) => haversineKm(a.location, b.location)));
+  const pinFirst = !!options.pinFirst;
+  const pinLast = !!options.pinLast;
+
+  const middle = Array.from({ length: n }, (_, i) => i).filter(
+    (i) => !(pinFirst && i === 0) && !(pinLast && i === n - 1)
+  );
+  const starts = pinFirst ? [0] : middle;
+
+  let nearestPath: number[] | null = null;
+  let nearestCost = Infinity;
+  for (const start of starts) {
+    const path = nearestNeighbourPath(start, pinFirst ? [0, ...middle] : middle, dist);
+    if (pinLast) path.push(n - 1);
+    const cost = pathCost(path, dist);
+    if (cost < nearestCost) {
+      nearestPath = path;
+      nearestCost = cost;
+    }
+  }
+  const bestPath = twoOpt(nearestPath!, dist, pinFirst, pinLast);
+  const bestCost = pathCost(bestPath, dist);
+
+  // Group each located stop with the notes that follow it; leading notes stay on top.
+  const leading: Destination[] = [];
+  const followers = new Map<string, Destination[]>();
+  let anchor: string | null = null;
+  for (const d of destinations) {
+    if (hasValidLocation(d)) {
+      anchor = d.id;
+      followers.set(d.id, []);
+    } else if (anchor) {
+      followers.get(anchor)!.push(d);
+    } else {
+      leading.push(d);
+    }
+  }
+
+  const ordered = [
+    ...leading,
+    ...bestPath.flatMap((i) => [located[i]!, ...(followers.get(located[i]!.id) ?? [])]),
+  ];
+
+  // Keep the original order unless the new one is actually shorter.
+  if (bestCost >= beforeKm - 1e-9) return { destinations, beforeKm, afterKm: beforeKm };
+  return { destinations: ordered, beforeKm, afterKm: bestCost };
+}
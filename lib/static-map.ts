@@ -0,0 +1,54 @@
+import type { Coordinates } from '@/types/trip';
+
+/** Google rejects Static Maps URLs longer than this. */
+const MAX_STATIC_MAP_URL_LENGTH = 16384;
+
+export interface StaticMapPath {
+  /** Encoded polyline from Directions, or the straight line between points. */
+  polyline?: string;
+  points?: Coordinates[];
+}
+
+function formatPoint(point: Coordinates) {
+  return `${point.lat.toFixed(6)},${point.lng.toFixed(6)}`;
+}
+
+/** `#RRGGBB` → Static Maps' `0xRRGGBB`. */
+function staticMapColor(hex: string) {
+  return `0x${hex.replace(/^#/, '').toUpperCase()}`;
+}
+
+/**
+ * A Static Maps image of numbered stops joined by their route. Labels are single
+ * characters, so stops past 9 are unlabeled. Route paths are dropped (markers kept)
+ * when they would push the URL over Google's length limit.
+ */
+export function staticMapUrl(args: {
+  apiKey: string;
+  stops: Coordinates[];
+  paths?: StaticMapPath[];
+  color: string;
+  width?: number;
+  height?: number;
+}): string | null {
+  const { apiKey, stops, paths = [], color, width = 640, height = 320 } = args;
+  if (stops.length === 0) return null;
+
+  const url = new URL('https://maps.googleapis.com/maps/api/staticmap');
+  url.searchParams.set('size', `${width}x${height}`);
+  url.searchParams.set('scale', '2');
+  url.searchParams.set('key', apiKey);
+  if (stops.length === 1) url.searchParams.set('zoom', '14');
+  stops.forEach((stop, i) => {
+    const label = i < 9 ? `|label:${i + 1}` : '';
+    url.searchParams.append('markers', `color:${staticMapColor(color)}${label}|${formatPoint(stop)}`);
+  });
+
+  const markersOnly = url.toString();
+  for (const path of paths) {
+    const line = path.polyline ? `enc:${path.polyline}` : (path.points ?? []).map(formatPoint).join('|');
+    if (line) url.searchParams.append('path', `color:${staticMapColor(color)}CC|weight:4|${line}`);
+  }
+  const full = url.toString();
+  return full.length <= MAX_STATIC_MAP_URL_LENGTH ? full : markersOnly;
+}
@@ -0,0 +1,55 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { StorageDriver } from '@/lib/storage';
+import { createMemoryStorage, type MemoryEntry } from '@/lib/storage-memory';
+
+interface StorageFile {
+  version: 1;
+  entries: Record<string, unknown>;
+}
+
+function loadEntries(filePath: string): Map<string, MemoryEntry> {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+    throw error;
+  }
+
+  const data = JSON.parse(raw) as StorageFile;
+  return new Map(Object.entries(data.entries ?? {}).map(([key, value]) => [key, { value }]));
+}
+
+/**
+ * Memory store persisted to a single JSON file, for self-hosting without Upstash.
+ * The whole file is rewritten (atomically, via rename) after each write, so this suits
+ * one server process with modest data. Expiring keys such as presence are kept in memory only.
+ */
+export function createFileStorage(filePath: string): StorageDriver {
+  const entries = loadEntries(filePath);
+  let pending: Promise<void> = Promise.resolve();
+
+  const persist = async () => {
+    const data: StorageFile = { version: 1, entries: {} };
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt == null) data.entries[key] = entry.value;
+    }
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, JSON.stringify(data));
+    await fs.promises.rename(tmpPath, filePath);
+  };
+
+  return createMemoryStorage({
+    name: 'file',
+    entries,
+    onWrite: (_entries, writes) => {
+      if (writes.every((w) => w.type === 'set' && w.ttlSeconds)) return Promise.resolve();
+      // Chain so overlapping saves never write the file concurrently.
+      const next = pending.then(persist);
+      pending = next.catch(() => {});
+      return next;
+    },
+  });
+}
@@ -0,0 +1,78 @@
+import type { StorageDriver, StorageDriverName, StorageWrite } from '@/lib/storage';
+
+export interface MemoryEntry {
+  /** JSON value, or an array of them for lists. */
+  value: unknown;
+  expiresAt?: number;
+}
+
+export interface MemoryStorageOptions {
+  name?: StorageDriverName;
+  entries?: Map<string, MemoryEntry>;
+  /** Called after each batch of writes has been applied, e.g. to persist them. */
+  onWrite?: (entries: Map<string, MemoryEntry>, writes: StorageWrite[]) => Promise<void>;
+}
+
+// Round-trip through JSON so callers never share references with the store, and values
+// behave the same as they would after a trip through a real backend.
+function cloneJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function readEntry(entries: Map<string, MemoryEntry>, key: string): MemoryEntry | null {
+  const entry = entries.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt != null && Date.now() > entry.expiresAt) {
+    entries.delete(key);
+    return null;
+  }
+  return entry;
+}
+
+/**
+ * Single-process store for local development and tests. Data is lost on restart unless
+ * `onWrite` persists it (see `lib/storage-file.ts`).
+ */
+export function createMemoryStorage(options: MemoryStorageOptions = {}): StorageDriver {
+  const entries = options.entries ?? new Map<string, MemoryEntry>();
+
+  return {
+    name: options.name ?? 'memory',
+
+    async get<T>(key: string) {
+      const entry = readEntry(entries, key);
+      return entry ? cloneJson(entry.value as T) : null;
+    },
+
+    async lrange<T>(key: string) {
+      const entry = readEntry(entries, key);
+      return Array.isArray(entry?.value) ? cloneJson(entry.value as T[]) : [];
+    },
+
+    async write(writes) {
+      // Writes are applied synchronously, so a batch is never interleaved with another.
+      for (const w of writes) {
+        switch (w.type) {
+          case 'set':
+            entries.set(w.key, {
+              value: cloneJson(w.value),
+              expiresAt: w.ttlSeconds ? Date.now() + w.ttlSeconds * 1000 : undefined,
+            });
+            break;
+          case 'del':
+            for (const key of w.keys) entries.delete(key);
+            break;
+          case 'lpush': {
+            const current = readEntry(entries, w.key)?.value;
+            const list = [cloneJson(w.value), ...(Array.isArray(current) ? current : [])];
+            entries.set(w.key, {
+              value: w.maxLength ? list.slice(0, w.maxLength) : list,
+            });
+            break;
+          }
+        }
+      }
+      await options.onWrite?.(entries, writes);
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { Redis } from '@upstash/redis';
+import type { StorageDriver } from '@/lib/storage';
+
+// The client auto-deserializes JSON, but values written as plain strings come back raw.
+function parseValue<T>(data: unknown): T {
+  return (typeof data === 'string' ? JSON.parse(data) : data) as T;
+}
+
+export function createUpstashStorage(url: string, token: string): StorageDriver {
+  const redis = new Redis({ url, token });
+
+  return {
+    name: 'upstash',
+
+    async get<T>(key: string) {
+      const data = await redis.get(key);
+      if (!data) return null;
+      return parseValue<T>(data);
+    },
+
+    async lrange<T>(key: string) {
+      const items = await redis.lrange(key, 0, -1);
+      return items.map((item) => parseValue<T>(item));
+    },
+
+    async write(writes) {
+      const tx = redis.multi();
+      for (const w of writes) {
+        switch (w.type) {
+          case 'set':
+            if (w.ttlSeconds) {
+              tx.set(w.key, JSON.stringify(w.value), { ex: w.ttlSeconds });
+            } else {
+              tx.set(w.key, JSON.stringify(w.value));
+            }
+            break;
+          case 'del':
+            if (w.keys.length > 0) tx.del(...w.keys);
+            break;
+          case 'lpush':
+            tx.lpush(w.key, JSON.stringify(w.value));
+            if (w.maxLength) tx.ltrim(w.key, 0, w.maxLength - 1);
+            break;
+        }
+      }
+      await tx.exec();
+    },
+  };
+}
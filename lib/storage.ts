@@ -0,0 +1,94 @@
+import path from 'node:path';
+import { createFileStorage } from '@/lib/storage-file';
+import { createMemoryStorage } from '@/lib/storage-memory';
+import { createUpstashStorage } from '@/lib/storage-upstash';
+
+export type StorageDriverName = 'upstash' | 'memory' | 'file';
+
+export type StorageWrite =
+  | { type: 'set'; key: string; value: unknown; ttlSeconds?: number }
+  | { type: 'del'; keys: string[] }
+  /** Prepends to a list, keeping at most `maxLength` items when given. */
+  | { type: 'lpush'; key: string; value: unknown; maxLength?: number };
+
+/**
+ * Key-value backend behind `lib/kv.ts`. Values are JSON-serializable; drivers throw on
+ * failure and `lib/kv.ts` decides how to degrade.
+ */
+export interface StorageDriver {
+  name: StorageDriverName;
+  get<T>(key: string): Promise<T | null>;
+  /** Whole list, most recently pushed first. */
+  lrange<T>(key: string): Promise<T[]>;
+  /** Applies writes in order; all-or-nothing where the backend supports it. */
+  write(writes: StorageWrite[]): Promise<void>;
+}
+
+// Cached on globalThis so dev hot reloads keep the in-memory/file stores.
+const globalKey = '__daily_dally_storage__';
+
+function resolveDriverName(): StorageDriverName | null {
+  const configured = process.env.STORAGE_DRIVER?.trim().toLowerCase();
+  if (configured === 'upstash' || configured === 'memory' || configured === 'file') {
+    return configured;
+  }
+  if (configured) {
+    console.error(`Unknown STORAGE_DRIVER "${configured}"; expected upstash, memory or file.`);
+    return null;
+  }
+
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    return 'upstash';
+  }
+  if (process.env.NODE_ENV !== 'production') {
+    console.warn('No STORAGE_DRIVER or Upstash credentials set; using in-memory storage.');
+    return 'memory';
+  }
+  console.error('No storage configured. Set STORAGE_DRIVER or the Upstash credentials.');
+  return null;
+}
+
+function createDriver(name: StorageDriverName): StorageDriver | null {
+  switch (name) {
+    case 'upstash': {
+      const url = process.env.UPSTASH_REDIS_REST_URL;
+      const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+      if (!url || !token) {
+        console.error('STORAGE_DRIVER=upstash requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN.');
+        return null;
+      }
+      return createUpstashStorage(url, token);
+    }
+    case 'memory':
+      return createMemoryStorage();
+    case 'file':
+      return createFileStorage(
+        process.env.STORAGE_FILE_PATH || path.join(process.cwd(), '.data', 'daily-dally.json')
+      );
+  }
+}
+
+/**
+ * Returns the configured storage driver, or null when none is usable.
+ *
+ * `STORAGE_DRIVER` picks `upstash`, `memory` or `file` (`STORAGE_FILE_PATH`, default
+ * `.data/daily-dally.json`). Unset, it uses Upstash when credentials exist and falls back
+ * to memory outside production.
+ */
+export function getStorage(): StorageDriver | null {
+  const g = globalThis as unknown as Record<string, unknown>;
+  const existing = g[globalKey] as StorageDriver | undefined;
+  if (existing) return existing;
+
+  const name = resolveDriverName();
+  if (!name) return null;
+
+  try {
+    const driver = createDriver(name);
+    if (driver) g[globalKey] = driver;
+    return driver;
+  } catch (error) {
+    console.error('Error creating storage driver:', name, error);
+    return null;
+  }
+}
@@ -0,0 +1,55 @@
+import { MAX_DIRECTIONS_POINTS } from '@/lib/directions';
+import type { Day, Destination, TravelMode } from '@/types/trip';
+
+export const TRAVEL_MODES: TravelMode[] = ['driving', 'walking', 'transit', 'bicycling'];
+
+export const DEFAULT_TRAVEL_MODE: TravelMode = 'driving';
+
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  driving: 'Drive',
+  walking: 'Walk',
+  transit: 'Transit',
+  bicycling: 'Bike',
+};
+
+export function getDayTravelMode(day: Pick<Day, 'travelMode'>): TravelMode {
+  return day.travelMode ?? DEFAULT_TRAVEL_MODE;
+}
+
+/** Mode used to reach `destination` from the previous stop. */
+export function getLegTravelMode(destination: Destination, dayMode: TravelMode): TravelMode {
+  return destination.travelMode ?? dayMode;
+}
+
+export interface RouteSegment {
+  mode: TravelMode;
+  /** Consecutive located stops; at least two and at most `MAX_DIRECTIONS_POINTS`. */
+  stops: Destination[];
+}
+
+/**
+ * Splits a day's located stops into runs that can each be routed with one Directions
+ * request: consecutive legs sharing a mode. Transit requests can't have waypoints, so
+ * every transit leg is its own segment. Longer runs are cut into chunks of at most
+ * `MAX_DIRECTIONS_POINTS`, each starting at the previous chunk's last stop.
+ */
+export function splitRouteSegments(stops: Destination[], dayMode: TravelMode): RouteSegment[] {
+  const segments: RouteSegment[] = [];
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1]!;
+    const to = stops[i]!;
+    const mode = getLegTravelMode(to, dayMode);
+    const current = segments[segments.length - 1];
+    if (
+      current &&
+      current.mode === mode &&
+      mode !== 'transit' &&
+      current.stops.length < MAX_DIRECTIONS_POINTS
+    ) {
+      current.stops.push(to);
+    } else {
+      segments.push({ mode, stops: [from, to] });
+    }
+  }
+  return segments;
+}
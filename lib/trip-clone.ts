@@ -0,0 +1,32 @@
+import { generateId } from '@/lib/ulid';
+import { TRIP_SCHEMA_VERSION } from '@/lib/trip-schema';
+import type { Day, Destination, Trip } from '@/types/trip';
+
+/** A copy of `source` with fresh trip, day and destination ids and a reset revision. */
+export function cloneTripWithNewIds(source: Trip, overrides?: { name?: string }): Trip {
+  const now = new Date().toISOString();
+
+  const days: Day[] = source.days.map((day) => {
+    const destinations: Destination[] = day.destinations.map((d) => ({
+      ...d,
+      id: generateId(),
+    }));
+
+    return {
+      ...day,
+      id: generateId(),
+      destinations,
+    };
+  });
+
+  return {
+    ...source,
+    id: generateId(),
+    schemaVersion: TRIP_SCHEMA_VERSION,
+    name: (overrides?.name ?? `${source.name} (Copy)`).trim(),
+    createdAt: now,
+    updatedAt: now,
+    revision: 0,
+    days,
+  };
+}
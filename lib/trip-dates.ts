@@ -0,0 +1,66 @@
+import type { Trip } from '@/types/trip';
+
+/** Calendar date without a time zone, e.g. "2026-06-03". */
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Dates are calendar days, not instants: do all arithmetic and formatting in UTC so the
+// viewer's time zone can never shift a day.
+function parseIsoDate(isoDate: string): Date | null {
+  if (!ISO_DATE_PATTERN.test(isoDate)) return null;
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function addDaysToIsoDate(isoDate: string, days: number): string | null {
+  const date = parseIsoDate(isoDate);
+  if (!date) return null;
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The calendar date of the day at `dayIndex`, or null when the trip has no start date.
+ * Days are consecutive from the start date, so reordering days shifts their dates.
+ */
+export function getDayDate(trip: Pick<Trip, 'startDate'>, dayIndex: number): string | null {
+  if (!trip.startDate || dayIndex < 0) return null;
+  return addDaysToIsoDate(trip.startDate, dayIndex);
+}
+
+/** Date per day, in trip order. */
+export function getTripDayDates(trip: Pick<Trip, 'startDate' | 'days'>): (string | null)[] {
+  return trip.days.map((_, index) => getDayDate(trip, index));
+}
+
+/** e.g. "Wed, Jun 3" (or "Wed, Jun 3, 2026" with `year`). */
+export function formatIsoDate(isoDate: string, options: { year?: boolean } = {}): string {
+  const date = parseIsoDate(isoDate);
+  if (!date) return isoDate;
+  return date.toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: options.year ? 'numeric' : undefined,
+    timeZone: 'UTC',
+  });
+}
+
+/** e.g. "Jun 3 – Jun 7, 2026"; null when the trip has no start date. */
+export function formatTripDateRange(trip: Pick<Trip, 'startDate' | 'days'>): string | null {
+  if (!trip.startDate) return null;
+  const start = parseIsoDate(trip.startDate);
+  const endIso = getDayDate(trip, trip.days.length - 1);
+  const end = endIso ? parseIsoDate(endIso) : null;
+  if (!start || !end) return null;
+
+  const format = (date: Date, year: boolean) =>
+    date.toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      year: year ? 'numeric' : undefined,
+      timeZone: 'UTC',
+    });
+  if (start.getTime() === end.getTime()) return format(start, true);
+  const sameYear = start.getUTCFullYear() === end.getUTCFullYear();
+  return `${format(start, !sameYear)} – ${format(end, true)}`;
+}
@@ -0,0 +1,108 @@
+import type { Destination, Trip } from '@/types/trip';
+import { getDayTravelMode } from '@/lib/travel-modes';
+
+const MAX_SUMMARY_LINES = 6;
+
+function quote(text: string) {
+  const trimmed = text.trim();
+  return `“${trimmed.length > 40 ? `${trimmed.slice(0, 39)}…` : trimmed}”`;
+}
+
+/**
+ * Human-readable, best-effort summary of what changed between two revisions of a trip,
+ * e.g. for the version history list. Not a full diff: at most a handful of lines.
+ */
+export function summarizeTripChanges(prev: Trip, next: Trip): string[] {
+  const lines: string[] = [];
+
+  if (prev.name !== next.name) {
+    lines.push(`Renamed trip to ${quote(next.name)}`);
+  }
+
+  if (prev.startDate !== next.startDate) {
+    lines.push(next.startDate ? `Set start date to ${next.startDate}` : 'Cleared start date');
+  }
+
+  const prevDays = new Map(prev.days.map((d) => [d.id, d] as const));
+  const nextDays = new Map(next.days.map((d) => [d.id, d] as const));
+
+  for (const day of next.days) {
+    const before = prevDays.get(day.id);
+    if (!before) {
+      lines.push(`Added ${quote(day.label)}`);
+    } else if (before.label !== day.label) {
+      lines.push(`Renamed ${quote(before.label)} to ${quote(day.label)}`);
+    }
+    if (before && getDayTravelMode(before) !== getDayTravelMode(day)) {
+      lines.push(`Changed travel mode for ${quote(day.label)}`);
+    }
+  }
+  for (const day of prev.days) {
+    if (!nextDays.has(day.id)) {
+      const count = day.destinations.length;
+      lines.push(
+        count > 0
+          ? `Deleted ${quote(day.label)} (${count} ${count === 1 ? 'stop' : 'stops'})`
+          : `Deleted ${quote(day.label)}`
+      );
+    }
+  }
+
+  const sharedDayOrder = (days: Trip['days'], other: Map<string, unknown>) =>
+    days.filter((d) => other.has(d.id)).map((d) => d.id).join('|');
+  if (sharedDayOrder(prev.days, nextDays) !== sharedDayOrder(next.days, prevDays)) {
+    lines.push('Reordered days');
+  }
+
+  const locate = (trip: Trip) => {
+    const out = new Map<string, { destination: Destination; dayId: string; dayLabel: string }>();
+    for (const day of trip.days) {
+      for (const destination of day.destinations) {
+        out.set(destination.id, { destination, dayId: day.id, dayLabel: day.label });
+      }
+    }
+    return out;
+  };
+  const prevStops = locate(prev);
+  const nextStops = locate(next);
+
+  for (const [id, { destination, dayId, dayLabel }] of nextStops) {
+    const before = prevStops.get(id);
+    if (!before) {
+      lines.push(`Added ${quote(destination.name)} to ${quote(dayLabel)}`);
+      continue;
+    }
+    if (before.dayId !== dayId) {
+      lines.push(`Moved ${quote(destination.name)} to ${quote(dayLabel)}`);
+    } else if (JSON.stringify(before.destination) !== JSON.stringify(destination)) {
+      lines.push(`Edited ${quote(destination.name)}`);
+    }
+  }
+  for (const [id, { destination, dayId, dayLabel }] of prevStops) {
+    // Stops inside a deleted day are already covered by the "Deleted day" line.
+    if (!nextStops.has(id) && nextDays.has(dayId)) {
+      lines.push(`Removed ${quote(destination.name)} from ${quote(dayLabel)}`);
+    }
+  }
+
+  for (const day of next.days) {
+    const before = prevDays.get(day.id);
+    if (!before) continue;
+    const order = (ids: string[], keep: Set<string>) => ids.filter((id) => keep.has(id)).join('|');
+    const shared = new Set(
+      before.destinations.map((d) => d.id).filter((id) => day.destinations.some((d) => d.id === id))
+    );
+    if (
+      order(before.destinations.map((d) => d.id), shared) !==
+      order(day.destinations.map((d) => d.id), shared)
+    ) {
+      lines.push(`Reordered stops in ${quote(day.label)}`);
+    }
+  }
+
+  if (lines.length > MAX_SUMMARY_LINES) {
+    const rest = lines.length - (MAX_SUMMARY_LINES - 1);
+    return [...lines.slice(0, MAX_SUMMARY_LINES - 1), `…and ${rest} more changes`];
+  }
+  return lines;
+}
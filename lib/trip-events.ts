@@ -0,0 +1,98 @@
+import { getTrip, getTripPresence, getTripRevision } from '@/lib/kv';
+import type { Trip, TripPresence } from '@/types/trip';
+
+export interface TripWatchHandlers {
+  onTrip: (trip: Trip) => void;
+  onPresence: (presence: TripPresence[]) => void;
+}
+
+/** Polls back off from the first interval towards the second while nothing changes. */
+const MIN_POLL_INTERVAL_MS = 2_000;
+const MAX_POLL_INTERVAL_MS = 10_000;
+const ACCESS_CHECK_INTERVAL_MS = 30_000;
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+function presenceSignature(presence: TripPresence[]) {
+  return presence
+    .map((p) => `${p.clientId}:${p.role}:${p.dayId ?? ''}`)
+    .sort()
+    .join('|');
+}
+
+/**
+ * Calls back whenever a trip's revision or its presence list changes, until `signal` aborts,
+ * `maxDurationMs` passes (callers should let clients reconnect rather than hold a
+ * serverless function open forever) or `isAllowed` resolves to false.
+ *
+ * The KV store has no pub/sub we can rely on across drivers, so this polls: the small
+ * revision key every time, the full trip only when it changes, and less often while the
+ * trip is quiet. It is the only place that needs to change if change notifications become
+ * available.
+ */
+export async function watchTrip(
+  tripId: string,
+  handlers: TripWatchHandlers,
+  options: {
+    signal: AbortSignal;
+    maxDurationMs: number;
+    /** Checked every 30 seconds, so a revoked or expired link stops receiving updates. */
+    isAllowed?: () => Promise<boolean>;
+  }
+): Promise<void> {
+  const { signal, maxDurationMs, isAllowed } = options;
+  const deadline = Date.now() + maxDurationMs;
+  let lastRevision = -1;
+  let lastPresence: string | null = null;
+  let lastAccessCheck = Date.now();
+  let interval = MIN_POLL_INTERVAL_MS;
+
+  while (!signal.aborted && Date.now() < deadline) {
+    // The route checks access before starting the stream.
+    const checkAccess = isAllowed && Date.now() - lastAccessCheck >= ACCESS_CHECK_INTERVAL_MS;
+    const [allowed, revision, presence] = await Promise.all([
+      checkAccess ? isAllowed() : true,
+      getTripRevision(tripId),
+      getTripPresence(tripId),
+    ]);
+    if (signal.aborted || !allowed) return;
+    if (checkAccess) lastAccessCheck = Date.now();
+
+    let changed = false;
+
+    // Every save writes the revision key, so a missing key means nothing has been saved
+    // since before it existed: the copy sent on the first poll is still current.
+    if (lastRevision === -1 || (revision !== null && revision !== lastRevision)) {
+      const trip = await getTrip(tripId);
+      if (signal.aborted) return;
+      if (trip && trip.revision !== lastRevision) {
+        lastRevision = trip.revision;
+        handlers.onTrip(trip);
+        changed = true;
+      }
+    }
+
+    const signature = presenceSignature(presence);
+    if (signature !== lastPresence) {
+      lastPresence = signature;
+      handlers.onPresence(presence);
+      changed = true;
+    }
+
+    interval = changed ? MIN_POLL_INTERVAL_MS : Math.min(interval * 2, MAX_POLL_INTERVAL_MS);
+    await sleep(interval, signal);
+  }
+}
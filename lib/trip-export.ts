@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import type { Trip } from '@/types/trip';
+import { parseTrip } from '@/lib/trip-schema';
+
+export const TRIP_EXPORT_FORMAT = 'daily-dally/trip';
+
+/**
+ * Version of the export envelope, not the trip: the trip inside carries its own
+ * `schemaVersion` and is migrated on import like a stored trip.
+ */
+export const TRIP_EXPORT_VERSION = 1;
+
+export interface TripExport {
+  format: typeof TRIP_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  trip: Trip;
+}
+
+const TripExportEnvelopeSchema = z.object({
+  format: z.literal(TRIP_EXPORT_FORMAT),
+  version: z.number().int().min(1),
+  trip: z.unknown(),
+});
+
+export class TripImportError extends Error {
+  name = 'TripImportError';
+}
+
+export function buildTripExport(trip: Trip): TripExport {
+  return {
+    format: TRIP_EXPORT_FORMAT,
+    version: TRIP_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    trip,
+  };
+}
+
+/** Validates an uploaded export and returns its (migrated) trip; throws `TripImportError`. */
+export function readTripExport(data: unknown): Trip {
+  const envelope = TripExportEnvelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    throw new TripImportError('This is not a Daily Dally trip file');
+  }
+  if (envelope.data.version > TRIP_EXPORT_VERSION) {
+    throw new TripImportError('This trip file is from a newer version of Daily Dally');
+  }
+
+  const trip = parseTrip(envelope.data.trip);
+  if (!trip.success) {
+    throw new TripImportError('This trip file is damaged or incomplete');
+  }
+  return trip.data;
+}
@@ -0,0 +1,375 @@
+import { z } from 'zod';
+import type { Day, Destination, Trip } from '@/types/trip';
+import { DestinationChangesSchema, DestinationSchema, TravelModeSchema } from '@/lib/trip-schema';
+import { ISO_DATE_PATTERN } from '@/lib/trip-dates';
+
+/**
+ * Granular edits applied server-side against the stored trip. Ops address days and
+ * destinations by id (never by index) so edits to different parts of a trip made by
+ * different editors apply cleanly on top of each other.
+ */
+export const TripOpSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('renameTrip'), name: z.string().trim().min(1) }),
+  /** null clears the start date. */
+  z.object({ type: z.literal('setStartDate'), startDate: z.string().regex(ISO_DATE_PATTERN).nullable() }),
+  z.object({
+    type: z.literal('addDay'),
+    day: z.object({
+      id: z.string().min(1),
+      label: z.string().trim().min(1),
+      /** Set when restoring a deleted day (e.g. undo) or importing a day of stops. */
+      destinations: z.array(DestinationSchema).optional(),
+      travelMode: TravelModeSchema.optional(),
+    }),
+    /** Insert after this day; null inserts first; omitted (or no longer present) appends. */
+    afterDayId: z.string().min(1).nullable().optional(),
+  }),
+  z.object({ type: z.literal('renameDay'), dayId: z.string().min(1), label: z.string().trim().min(1) }),
+  /** null resets the day to the default mode. */
+  z.object({
+    type: z.literal('setDayTravelMode'),
+    dayId: z.string().min(1),
+    travelMode: TravelModeSchema.nullable(),
+  }),
+  z.object({ type: z.literal('deleteDay'), dayId: z.string().min(1) }),
+  z.object({ type: z.literal('reorderDays'), dayIds: z.array(z.string().min(1)) }),
+  z.object({
+    type: z.literal('addDestination'),
+    dayId: z.string().min(1),
+    destination: DestinationSchema,
+    /** Insert after this destination; null inserts first; omitted (or no longer present) appends. */
+    afterDestinationId: z.string().min(1).nullable().optional(),
+  }),
+  z.object({
+    type: z.literal('updateDestination'),
+    dayId: z.string().min(1),
+    destinationId: z.string().min(1),
+    changes: DestinationChangesSchema,
+  }),
+  z.object({
+    type: z.literal('updateNotes'),
+    dayId: z.string().min(1),
+    destinationId: z.string().min(1),
+    notes: z.string(),
+  }),
+  z.object({ type: z.literal('deleteDestination'), dayId: z.string().min(1), destinationId: z.string().min(1) }),
+  z.object({
+    type: z.literal('reorderDestinations'),
+    dayId: z.string().min(1),
+    destinationIds: z.array(z.string().min(1)),
+  }),
+  z.object({
+    type: z.literal('moveDestination'),
+    fromDayId: z.string().min(1),
+    toDayId: z.string().min(1),
+    destinationId: z.string().min(1),
+  }),
+]);
+
+export type TripOp = z.infer<typeof TripOpSchema>;
+
+export type DestinationChanges = z.infer<typeof DestinationChangesSchema>;
+
+export const TripOpsRequestSchema = z.object({
+  ops: z.array(TripOpSchema).min(1).max(200),
+});
+
+export class TripOpError extends Error {
+  name = 'TripOpError';
+}
+
+/**
+ * Sorts `items` into the order given by `ids`. Items the caller didn't know about
+ * (e.g. added concurrently by someone else) keep their relative order at the end,
+ * and ids that no longer exist are ignored.
+ */
+function reorderById<T extends { id: string }>(items: T[], ids: string[]): T[] {
+  const byId = new Map(items.map((item) => [item.id, item] as const));
+  const ordered: T[] = [];
+  for (const id of ids) {
+    const item = byId.get(id);
+    if (!item) continue;
+    ordered.push(item);
+    byId.delete(id);
+  }
+  return [...ordered, ...items.filter((item) => byId.has(item.id))];
+}
+
+function insertAfter<T extends { id: string }>(
+  items: T[],
+  item: T,
+  afterId: string | null | undefined
+): T[] {
+  const afterIndex = afterId ? items.findIndex((x) => x.id === afterId) : -1;
+  const insertAt =
+    afterId === null ? 0 : afterIndex === -1 ? items.length : afterIndex + 1;
+  const next = [...items];
+  next.splice(insertAt, 0, item);
+  return next;
+}
+
+function requireDay(trip: Trip, dayId: string): Day {
+  const day = trip.days.find((d) => d.id === dayId);
+  if (!day) throw new TripOpError(`Day not found: ${dayId}`);
+  return day;
+}
+
+function mapDay(trip: Trip, dayId: string, fn: (day: Day) => Day): Trip {
+  requireDay(trip, dayId);
+  return { ...trip, days: trip.days.map((d) => (d.id === dayId ? fn(d) : d)) };
+}
+
+function mapDestination(
+  trip: Trip,
+  dayId: string,
+  destinationId: string,
+  fn: (destination: Destination) => Destination
+): Trip {
+  return mapDay(trip, dayId, (day) => {
+    if (!day.destinations.some((d) => d.id === destinationId)) {
+      throw new TripOpError(`Destination not found: ${destinationId}`);
+    }
+    return {
+      ...day,
+      destinations: day.destinations.map((d) => (d.id === destinationId ? fn(d) : d)),
+    };
+  });
+}
+
+function applyDestinationChanges(destination: Destination, changes: DestinationChanges): Destination {
+  const next: Record<string, unknown> = { ...destination };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === undefined) continue;
+    if (value === null) delete next[key];
+    else next[key] = value;
+  }
+  return next as unknown as Destination;
+}
+
+/** The `updateDestination` changes that turn `before` into `after`, with null for cleared fields. */
+export function diffDestination(before: Destination, after: Destination): DestinationChanges {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.delete('id');
+  const changes: Record<string, unknown> = {};
+  for (const key of keys) {
+    const prev = before[key as keyof Destination];
+    const next = after[key as keyof Destination];
+    if (JSON.stringify(prev) === JSON.stringify(next)) continue;
+    changes[key] = next ?? null;
+  }
+  return changes as DestinationChanges;
+}
+
+function applyTripOp(trip: Trip, op: TripOp): Trip {
+  switch (op.type) {
+    case 'renameTrip':
+      return { ...trip, name: op.name };
+
+    case 'setStartDate':
+      return { ...trip, startDate: op.startDate ?? undefined };
+
+    case 'addDay':
+      if (trip.days.some((d) => d.id === op.day.id)) return trip;
+      return {
+        ...trip,
+        days: insertAfter(
+          trip.days,
+          { ...op.day, destinations: op.day.destinations ?? [] },
+          op.afterDayId
+        ),
+      };
+
+    case 'renameDay':
+      return mapDay(trip, op.dayId, (day) => ({ ...day, label: op.label }));
+
+    case 'setDayTravelMode':
+      return mapDay(trip, op.dayId, (day) => ({ ...day, travelMode: op.travelMode ?? undefined }));
+
+    case 'deleteDay': {
+      // Deleting an already-deleted day is a no-op, but never leave a trip without days.
+      if (!trip.days.some((d) => d.id === op.dayId)) return trip;
+      if (trip.days.length <= 1) throw new TripOpError('A trip needs at least one day');
+      return { ...trip, days: trip.days.filter((d) => d.id !== op.dayId) };
+    }
+
+    case 'reorderDays':
+      return { ...trip, days: reorderById(trip.days, op.dayIds) };
+
+    case 'addDestination':
+      return mapDay(trip, op.dayId, (day) => {
+        if (day.destinations.some((d) => d.id === op.destination.id)) return day;
+        return {
+          ...day,
+          destinations: insertAfter(day.destinations, op.destination, op.afterDestinationId),
+        };
+      });
+
+    case 'updateDestination':
+      return mapDestination(trip, op.dayId, op.destinationId, (d) => applyDestinationChanges(d, op.changes));
+
+    case 'updateNotes':
+      return mapDestination(trip, op.dayId, op.destinationId, (d) => ({ ...d, notes: op.notes }));
+
+    case 'deleteDestination':
+      if (!trip.days.some((d) => d.id === op.dayId)) return trip;
+      return mapDay(trip, op.dayId, (day) => ({
+        ...day,
+        destinations: day.destinations.filter((d) => d.id !== op.destinationId),
+      }));
+
+    case 'reorderDestinations':
+      return mapDay(trip, op.dayId, (day) => ({
+        ...day,
+        destinations: reorderById(day.destinations, op.destinationIds),
+      }));
+
+    case 'moveDestination': {
+      if (op.fromDayId === op.toDayId) return trip;
+      const fromDay = requireDay(trip, op.fromDayId);
+      requireDay(trip, op.toDayId);
+      const destination = fromDay.destinations.find((d) => d.id === op.destinationId);
+      if (!destination) throw new TripOpError(`Destination not found: ${op.destinationId}`);
+      return {
+        ...trip,
+        days: trip.days.map((day) => {
+          if (day.id === op.fromDayId) {
+            return { ...day, destinations: day.destinations.filter((d) => d.id !== op.destinationId) };
+          }
+          if (day.id === op.toDayId) {
+            return { ...day, destinations: [...day.destinations, destination] };
+          }
+          return day;
+        }),
+      };
+    }
+  }
+}
+
+/**
+ * Applies `ops` in order. Pure and shared by the ops route and the client's optimistic update.
+ * Throws `TripOpError` when an op targets something that no longer exists in a way that would lose data.
+ */
+export function applyTripOps(trip: Trip, ops: TripOp[]): Trip {
+  return ops.reduce(applyTripOp, trip);
+}
+
+function invertTripOp(trip: Trip, op: TripOp): TripOp[] {
+  switch (op.type) {
+    case 'renameTrip':
+      return [{ type: 'renameTrip', name: trip.name }];
+
+    case 'setStartDate':
+      return [{ type: 'setStartDate', startDate: trip.startDate ?? null }];
+
+    case 'addDay':
+      return [{ type: 'deleteDay', dayId: op.day.id }];
+
+    case 'renameDay': {
+      const day = requireDay(trip, op.dayId);
+      return [{ type: 'renameDay', dayId: op.dayId, label: day.label }];
+    }
+
+    case 'setDayTravelMode': {
+      const day = requireDay(trip, op.dayId);
+      return [{ type: 'setDayTravelMode', dayId: op.dayId, travelMode: day.travelMode ?? null }];
+    }
+
+    case 'deleteDay': {
+      const index = trip.days.findIndex((d) => d.id === op.dayId);
+      if (index === -1) return [];
+      const day = trip.days[index]!;
+      return [
+        {
+          type: 'addDay',
+          day: {
+            id: day.id,
+            label: day.label,
+            destinations: day.destinations,
+            travelMode: day.travelMode,
+          },
+          afterDayId: trip.days[index - 1]?.id ?? null,
+        },
+      ];
+    }
+
+    case 'reorderDays':
+      return [{ type: 'reorderDays', dayIds: trip.days.map((d) => d.id) }];
+
+    case 'addDestination':
+      return [{ type: 'deleteDestination', dayId: op.dayId, destinationId: op.destination.id }];
+
+    case 'updateDestination': {
+      const day = requireDay(trip, op.dayId);
+      const before = day.destinations.find((d) => d.id === op.destinationId);
+      if (!before) return [];
+      const changes = Object.fromEntries(
+        Object.keys(op.changes).map((key) => [key, before[key as keyof Destination] ?? null])
+      ) as DestinationChanges;
+      return [{ type: 'updateDestination', dayId: op.dayId, destinationId: op.destinationId, changes }];
+    }
+
+    case 'updateNotes': {
+      const day = requireDay(trip, op.dayId);
+      const before = day.destinations.find((d) => d.id === op.destinationId);
+      if (!before) return [];
+      return [{ type: 'updateNotes', dayId: op.dayId, destinationId: op.destinationId, notes: before.notes }];
+    }
+
+    case 'deleteDestination': {
+      const day = trip.days.find((d) => d.id === op.dayId);
+      const index = day?.destinations.findIndex((d) => d.id === op.destinationId) ?? -1;
+      if (!day || index === -1) return [];
+      return [
+        {
+          type: 'addDestination',
+          dayId: op.dayId,
+          destination: day.destinations[index]!,
+          afterDestinationId: day.destinations[index - 1]?.id ?? null,
+        },
+      ];
+    }
+
+    case 'reorderDestinations': {
+      const day = requireDay(trip, op.dayId);
+      return [
+        {
+          type: 'reorderDestinations',
+          dayId: op.dayId,
+          destinationIds: day.destinations.map((d) => d.id),
+        },
+      ];
+    }
+
+    case 'moveDestination': {
+      if (op.fromDayId === op.toDayId) return [];
+      const fromDay = requireDay(trip, op.fromDayId);
+      return [
+        {
+          type: 'moveDestination',
+          fromDayId: op.toDayId,
+          toDayId: op.fromDayId,
+          destinationId: op.destinationId,
+        },
+        {
+          type: 'reorderDestinations',
+          dayId: op.fromDayId,
+          destinationIds: fromDay.destinations.map((d) => d.id),
+        },
+      ];
+    }
+  }
+}
+
+/**
+ * Returns ops that undo `ops` when applied after them. Like the ops themselves, the inverse
+ * addresses things by id, so it still applies cleanly on top of other editors' changes.
+ */
+export function invertTripOps(trip: Trip, ops: TripOp[]): TripOp[] {
+  const inverses: TripOp[][] = [];
+  let current = trip;
+  for (const op of ops) {
+    inverses.push(invertTripOp(current, op));
+    current = applyTripOp(current, op);
+  }
+  return inverses.reverse().flat();
+}
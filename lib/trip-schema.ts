@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import type { Trip } from '@/types/trip';
+import { ISO_DATE_PATTERN } from '@/lib/trip-dates';
+
+/** Bump when the stored trip shape changes, and add a migration below. */
+export const TRIP_SCHEMA_VERSION = 1;
+
+export const CoordinatesSchema = z.object({
+  lat: z.number(),
+  lng: z.number(),
+});
+
+export const TravelModeSchema = z.enum(['driving', 'walking', 'transit', 'bicycling']);
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const ArrivalTimeSchema = z.string().regex(TIME_OF_DAY_PATTERN);
+const DurationMinutesSchema = z.number().int().min(0).max(24 * 60);
+
+export const DestinationSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  placeId: z.string().optional(),
+  address: z.string().optional(),
+  location: CoordinatesSchema.optional(),
+  notes: z.string(),
+  arrivalTime: ArrivalTimeSchema.optional(),
+  durationMinutes: DurationMinutesSchema.optional(),
+  fixedTime: z.boolean().optional(),
+  travelMode: TravelModeSchema.optional(),
+});
+
+/** Partial destination update; optional fields take null to clear them. */
+export const DestinationChangesSchema = z
+  .object({
+    name: z.string(),
+    notes: z.string(),
+    placeId: z.string().nullable(),
+    address: z.string().nullable(),
+    location: CoordinatesSchema.nullable(),
+    arrivalTime: ArrivalTimeSchema.nullable(),
+    durationMinutes: DurationMinutesSchema.nullable(),
+    fixedTime: z.boolean().nullable(),
+    travelMode: TravelModeSchema.nullable(),
+  })
+  .partial();
+
+export const DaySchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  travelMode: TravelModeSchema.optional(),
+  destinations: z.array(DestinationSchema),
+});
+
+export const TripSchema: z.ZodType<Trip> = z.object({
+  id: z.string().min(1),
+  schemaVersion: z.literal(TRIP_SCHEMA_VERSION),
+  name: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  revision: z.number().int().min(0),
+  startDate: z.string().regex(ISO_DATE_PATTERN).optional(),
+  days: z.array(DaySchema).min(1),
+});
+
+type StoredTrip = Record<string, unknown>;
+
+/**
+ * `MIGRATIONS[n]` upgrades a version-n trip to version n + 1. Migrations only ever add or
+ * reshape data; validation happens once the trip is current.
+ */
+const MIGRATIONS: Record<number, (trip: StoredTrip) => StoredTrip> = {
+  // v0: trips saved before revisions and schemaVersion existed.
+  0: (trip) => ({
+    ...trip,
+    revision: typeof trip.revision === 'number' ? trip.revision : 0,
+  }),
+};
+
+/** Brings stored (or client-sent) trip JSON up to the current schema version, without validating it. */
+export function migrateTrip(data: unknown): unknown {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return data;
+
+  let trip = data as StoredTrip;
+  let version = typeof trip.schemaVersion === 'number' ? trip.schemaVersion : 0;
+  while (version < TRIP_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) break;
+    trip = migrate(trip);
+    version += 1;
+    trip = { ...trip, schemaVersion: version };
+  }
+  return trip;
+}
+
+/** Migrates then validates. Unknown keys are dropped. */
+export function parseTrip(data: unknown) {
+  return TripSchema.safeParse(migrateTrip(data));
+}
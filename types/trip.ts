@@ -3,6 +3,8 @@ export interface Coordinates {
   lng: number;
 }
 
+export type TravelMode = 'driving' | 'walking' | 'transit' | 'bicycling';
+
 export interface Destination {
   id: string;
   name: string;
@@ -10,22 +12,82 @@ export interface Destination {
   address?: string;
   location?: Coordinates;
   notes: string;
+  /** Planned arrival as "HH:MM" (24h, local to the trip). */
+  arrivalTime?: string;
+  /** Planned time spent here. */
+  durationMinutes?: number;
+  /** The arrival time can't move, e.g. a reservation; the timeline warns if it's unreachable. */
+  fixedTime?: boolean;
+  /** Overrides the day's travel mode for the leg arriving here. */
+  travelMode?: TravelMode;
 }
 
 export interface Day {
   id: string;
   label: string;
+  /** How the day is travelled between stops; driving when unset. */
+  travelMode?: TravelMode;
   destinations: Destination[];
 }
 
 export interface Trip {
   id: string;
+  /** Stored data model version; older trips are migrated forward on read (see lib/trip-schema.ts). */
+  schemaVersion: number;
   name: string;
   createdAt: string;
   updatedAt: string;
+  /**
+   * Monotonic save counter used for optimistic concurrency. Clients send back the
+   * revision they edited; the server rejects the write if it has moved on.
+   */
+  revision: number;
+  /**
+   * First day of the trip as "YYYY-MM-DD". Days don't store dates: day N is start + N days,
+   * so dates follow the day order (see lib/trip-dates.ts).
+   */
+  startDate?: string;
   days: Day[];
 }
 
+export interface TripHistorySummary {
+  revision: number;
+  savedAt: string;
+  /** Short human-readable lines describing what this revision changed. */
+  changes: string[];
+  dayCount: number;
+  destinationCount: number;
+}
+
+/** Travel between two consecutive located stops, as reported by Directions. */
+export interface RouteLeg {
+  fromDestinationId: string;
+  toDestinationId: string;
+  durationSeconds: number;
+  distanceMeters: number;
+}
+
+export interface TripPresence {
+  /** Random per-tab id; there are no accounts, so this is all that tells editors apart. */
+  clientId: string;
+  role: 'view' | 'edit';
+  /** The day the tab has open, or null for the whole-trip view. */
+  dayId: string | null;
+  updatedAt: string;
+}
+
+/** A share link as listed to editors. The trip's default view and edit links have no label. */
+export interface TripShareLink {
+  token: string;
+  role: 'view' | 'edit';
+  label: string | null;
+  isDefault: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  hasPassphrase: boolean;
+}
+
 export interface PlaceResult {
   placeId: string;
   name: string;